@@ -1,117 +1,302 @@
 "use client";
 import React from "react";
-import { useEffect, useState, useRef } from "react";
-import io, { Socket } from "socket.io-client";
+import { useEffect, useState, useRef, useSyncExternalStore } from "react";
+import io from "socket.io-client";
 import * as THREE from "three";
 import * as tf from "@tensorflow/tfjs";
-import * as posenet from "@tensorflow-models/posenet";
-
-interface Player {
-  id: string;
-  health: number;
-  ready: boolean;
-  isHost?: boolean;
-}
-
-interface RoomState {
-  isInRoom: boolean;
-  roomCode: string | null;
-  isHost: boolean;
-  winnerIsHost?: boolean;
-}
-
-interface RoomInfo {
-  error?: string;
-  code: string;
-  players: Player[];
-  createdAt: string;
-  
-}
+import {
+  checkProtocolVersion,
+  createValidatedListener,
+  GameSocket,
+  HANDSHAKE_TIMEOUT_MS,
+  operatorKey,
+  GameOverReason,
+  PauseInfo,
+  Placement,
+  Player,
+  RoundResult,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  RematchOptions,
+  RematchRequestedPayload,
+  SERVER_COUNTDOWN_VERSION,
+} from "@/lib/protocol";
+import {
+  canStartMatch,
+  DEFAULT_ROOM_SETTINGS,
+  GAME_MODE_IDS,
+  GAME_MODES,
+  GameMode,
+  hostFirst,
+  isTeamId,
+  operatorLabel,
+  ROUND_OPTIONS,
+  roomSizesFor,
+  RoomSettings,
+  TEAM_IDS,
+  TeamId,
+  teamMembers,
+  TEAMS,
+  teamSize,
+  tallyRounds,
+  TIME_LIMIT_OPTIONS,
+  withGameMode,
+} from "@/lib/game-modes";
+import { crosshairForWeapon, MISS, PoseLike } from "@/lib/hit-detection";
+import { matchDuration, operatorStats, zoneHeat } from "@/lib/match-stats";
+import {
+  buildMatchRecord,
+  careerStats,
+  exportHistory,
+  importHistory,
+  loadMatches,
+  MatchRecord,
+  saveMatch,
+  saveMatches,
+} from "@/lib/match-history";
+import { killFeed, logEvent, logEvents, MatchLogEntry, rosterChanges, SPECTATOR_FEED_LENGTH } from "@/lib/match-log";
+import { DAMAGE_FLASH_GRADIENTS, DAMAGE_FLASH_MS, DamageFlash, HIT_MARKER_MS, HitMarker } from "@/lib/hit-feedback";
+import { personNumber, selectTarget } from "@/lib/target-selection";
+import {
+  createPoseDetector,
+  DEFAULT_POSE_BACKEND,
+  isPoseBackendId,
+  POSE_BACKEND_IDS,
+  POSE_BACKEND_STORAGE_KEY,
+  POSE_BACKENDS,
+  PoseBackendId,
+  PoseDetector,
+} from "@/lib/pose-detector";
+import {
+  addClockSample,
+  CLOCK_SYNC_BURST,
+  ClockSample,
+  clockSample,
+  COUNTDOWN_MS,
+  estimateOffset,
+  formatClock,
+  MatchClock,
+  msUntil,
+  remainingMs,
+  toMatchClock,
+} from "@/lib/match-clock";
+import { createGamePhaseStore, PhaseEvent, PhaseTransitionError, screenPhase } from "@/lib/game-phase";
+import { clearPoseOverlay, drawPoseOverlay, POSE_MAX_AGE_MS, POSE_TRACKING_INTERVAL_MS } from "@/lib/pose-overlay";
+import { clearRoomSession, loadRoomSession, saveRoomSession } from "@/lib/room-session";
+import type { ShotRecord } from "@/lib/shot-verification";
+import { DEFAULT_WEAPON, getWeapon, HIT_ZONE_LABELS, HitZone, WEAPON_IDS, WEAPONS, WeaponId } from "@/lib/weapons";
+
+// Lives outside the component so socket handlers read the current phase
+// directly instead of through a ref that's a render behind
+const phaseStore = createGamePhaseStore();
+
+// Server events can arrive out of step with where we are - a catch-up
+// matchStart mid-combat, say. Those are logged and dropped rather than thrown.
+const sendPhase = (event: PhaseEvent): boolean => {
+  try {
+    phaseStore.send(event);
+    return true;
+  } catch (err) {
+    if (err instanceof PhaseTransitionError) {
+      console.warn(`⚠️ ${err.message}`);
+      return false;
+    }
+    throw err;
+  }
+};
 
 export default function Game() {
   const [players, setPlayers] = useState<Player[]>([]);
-  const [gameStatus, setGameStatus] = useState<"lobby" | "waiting" | "ready" | "over">("lobby");
+  // Where we are in the match flow, and the room we're in - see lib/game-phase
+  const phase = useSyncExternalStore(phaseStore.subscribe, phaseStore.get, phaseStore.get);
+  const roomState = phase.room;
   const [socketId, setSocketId] = useState<string | null>(null);
   const [winner, setWinner] = useState<string | null>(null);
   const [cameraError, setCameraError] = useState<string | null>(null);
+  // RETRY SYSTEM bumps this to ask for the camera again. The camera counts as
+  // down until the new stream is actually playing.
+  const [cameraAttempt, setCameraAttempt] = useState<number>(0);
+  const [cameraRetrying, setCameraRetrying] = useState<boolean>(false);
   const [countdown, setCountdown] = useState<number | null>(null);
-  const [roomState, setRoomState] = useState<RoomState>({ 
-    isInRoom: false, 
-    roomCode: null, 
-    isHost: false 
-  });
+  // Mode and size picked in the lobby for the next room we create
+  const [roomSettings, setRoomSettings] = useState<RoomSettings>(DEFAULT_ROOM_SETTINGS);
+  // Opponent picked from the roster in free-for-all - the camera can't tell players apart
+  const [targetOperatorId, setTargetOperatorId] = useState<string | null>(null);
+  const [placements, setPlacements] = useState<Placement[]>([]);
+  const [winningTeam, setWinningTeam] = useState<TeamId | null>(null);
+  // Rounds played so far in a best-of-N match
+  const [roundResults, setRoundResults] = useState<RoundResult[]>([]);
+  const [gameOverReason, setGameOverReason] = useState<GameOverReason | null>(null);
+  // Who forfeited and why, when the match ended by forfeit
+  const [forfeit, setForfeit] = useState<PauseInfo | null>(null);
+  // A rematch waiting on answers; offset is serverTime - clientTime for its expiry
+  const [rematch, setRematch] = useState<(RematchRequestedPayload & { offset: number }) | null>(null);
+  // Why the last rematch request fell through
+  const [rematchNotice, setRematchNotice] = useState<string | null>(null);
+  const [rematchOptions, setRematchOptions] = useState<RematchOptions>({ swapWeapons: false, swapSides: false });
+  // Timed rooms only; null when there's no clock running
+  const [matchClock, setMatchClock] = useState<MatchClock | null>(null);
+  const [clockNow, setClockNow] = useState<number>(() => Date.now());
+  // Everything that's happened this match, oldest first
+  const [matchLog, setMatchLog] = useState<MatchLogEntry[]>([]);
+  // Service record screen, opened from the lobby
+  const [showServiceRecord, setShowServiceRecord] = useState<boolean>(false);
+  const [matchHistory, setMatchHistory] = useState<MatchRecord[]>([]);
+  // Confirmed hits we landed, and hits we took - both from the server's playerHit
+  const [hitMarker, setHitMarker] = useState<HitMarker | null>(null);
+  const [damageFlash, setDamageFlash] = useState<DamageFlash | null>(null);
   const [joinRoomCode, setJoinRoomCode] = useState<string>("");
   const [connectionStatus, setConnectionStatus] = useState<"connecting" | "connected" | "disconnected" | "error">("connecting");
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+  // Most recent poses from the tracking loop - everyone the detector saw in frame
+  const latestPosesRef = useRef<{ poses: PoseLike[]; timestamp: number } | null>(null);
+  // people: how many are in frame, locked: left-to-right number of the locked person
+  const [targetStatus, setTargetStatus] = useState<{ people: number; locked: number | null; zone: HitZone | null }>({
+    people: 0,
+    locked: null,
+    zone: null,
+  });
   const [lastShot, setLastShot] = useState<number>(0);
+  const [isCoolingDown, setIsCoolingDown] = useState<boolean>(false);
   const [isReloading, setIsReloading] = useState<boolean>(false);
-  const socketRef = useRef<Socket | null>(null);
+  const [ammo, setAmmo] = useState<number>(getWeapon(DEFAULT_WEAPON).magazineSize);
+  const reloadTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const socketRef = useRef<GameSocket | null>(null);
+  const [protocolError, setProtocolError] = useState<string | null>(null);
   const [videoDevices, setVideoDevices] = useState<MediaDeviceInfo[]>([]);
   const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(null);
-  const sniperSoundRef = useRef<HTMLAudioElement>(null);
-  const pistolSoundRef = useRef<HTMLAudioElement>(null);
-  const shotgunSoundRef = useRef<HTMLAudioElement>(null);
+  const weaponSoundRefs = useRef<Partial<Record<WeaponId, HTMLAudioElement | null>>>({});
   const hitSoundRef = useRef<HTMLAudioElement>(null);
-  const netRef = useRef<posenet.PoseNet | null>(null);
-  const [selectedGun, setSelectedGun] = useState<"sniper" | "pistol" | "shotgun">("pistol");
+  const detectorRef = useRef<PoseDetector | null>(null);
+  const [poseBackend, setPoseBackend] = useState<PoseBackendId>(DEFAULT_POSE_BACKEND);
+  const [selectedGun, setSelectedGun] = useState<WeaponId>(DEFAULT_WEAPON);
+
+  // Restore the tracking model chosen in settings
+  useEffect(() => {
+    const saved = localStorage.getItem(POSE_BACKEND_STORAGE_KEY);
+    if (isPoseBackendId(saved)) {
+      setPoseBackend(saved);
+    }
+  }, []);
+
+  // Who "YOU" are in the player list - the stable operator id, falling back to
+  // the socket id on servers that don't issue one
+  const selfKey = roomState.operatorId ?? socketId;
+  const isSelf = (player: Player) => roomState.isInRoom && selfKey !== null && operatorKey(player) === selfKey;
+  // Anything bigger than a duel gets a roster of opponents to pick targets from
+  const hasRoster = roomState.settings.mode !== "duel";
+  const isTeamMode = GAME_MODES[roomState.settings.mode].teams;
+  // Fewest operators the mode can start a match with
+  const minPlayers = GAME_MODES[roomState.settings.mode].minPlayers;
+  const myTeam = players.find(isSelf)?.team;
+  const isVictory = winningTeam ? winningTeam === myTeam : winner !== null && winner === selfKey;
+
+  // Host first, then join order - slot numbers in the waiting room, HUD and debrief
+  const orderedPlayers = hostFirst(players);
+  const labelFor = (id: string) => operatorLabel(orderedPlayers.findIndex((p) => operatorKey(p) === id));
+  // Everyone else in the room; in team mode teammates are listed too
+  const opponents = orderedPlayers.filter((player) => roomState.isInRoom && !isSelf(player));
+  const isTeammate = (player: Player) => isTeamMode && player.team === myTeam;
+  const standingOpponents = opponents.filter((player) => player.health > 0 && !isTeammate(player));
+  // Teammates can only be picked as a target when friendly fire is on
+  const targetable = opponents.filter(
+    (player) => player.health > 0 && (!isTeammate(player) || roomState.settings.friendlyFire)
+  );
+  const selfEliminated = players.some((player) => isSelf(player) && player.health <= 0);
+  // Who a shot is aimed at: the only enemy left, or whoever was picked on the roster
+  const shotTargetId = targetable.find((player) => operatorKey(player) === targetOperatorId)
+    ? targetOperatorId
+    : standingOpponents.length === 1
+      ? operatorKey(standingOpponents[0])
+      : null;
+  const teamHealth = (team: TeamId) => teamMembers(players, team).reduce((sum, player) => sum + player.health, 0);
+  // Round scores are kept per team in team modes, otherwise per player
+  const sideLabel = (side: string) =>
+    isTeamId(side) ? `TEAM ${TEAMS[side].label}` : `${labelFor(side)}${side === selfKey ? " (YOU)" : ""}`;
+  const screen = screenPhase(phase);
+  const inCombat = screen.name === "combat";
+  const suddenDeath = screen.name === "combat" && screen.suddenDeath;
+  // Picking weapons and readying up, before a match or between rounds
+  const briefing = screen.name === "inRoom" || screen.name === "countdown" || screen.name === "roundOver";
+  const career = careerStats(matchHistory);
+  const roundScores = [...tallyRounds(roundResults)];
+  const lastRound = roundResults[roundResults.length - 1];
+  // The host can change the settings until the first countdown starts
+  const canEditSettings = roomState.isHost && !roomState.isSpectator && phase.name === "inRoom" && roundResults.length === 0;
 
   // Add refs to access current state in event handlers
-  const gameStatusRef = useRef(gameStatus);
-  const roomStateRef = useRef(roomState);
+  const selectedGunRef = useRef(selectedGun);
+  const socketIdRef = useRef(socketId);
+  // Last player list seen, for spotting ready and connection changes
+  const playersRef = useRef<Player[]>([]);
+  const hitFeedbackIdRef = useRef(0);
+  // Timestamp of the last result saved to the service record, so it's only saved once
+  const savedResultRef = useRef<number | null>(null);
+  // timeSync round trips and the server clock offset worked out from them
+  const clockSamplesRef = useRef<ClockSample[]>([]);
+  const clockOffsetRef = useRef<number | null>(null);
+  // Whether the server runs the ready-up countdown; older ones leave it to us
+  const serverCountdownRef = useRef(false);
   
   // Update refs when state changes
   useEffect(() => {
-    gameStatusRef.current = gameStatus;
-  }, [gameStatus]);
-  
-  useEffect(() => {
-    roomStateRef.current = roomState;
-  }, [roomState]);
+    selectedGunRef.current = selectedGun;
+  }, [selectedGun]);
 
   useEffect(() => {
-    // Request camera permission early to populate device details
-    const requestCameraPermission = async () => {
-      try {
-        const stream = await navigator.mediaDevices.getUserMedia({ video: true });
-        stream.getTracks().forEach((track) => track.stop());
-        const devices = await navigator.mediaDevices.enumerateDevices();
-        const videoInputs = devices.filter((device) => device.kind === "videoinput");
-        console.log("Available video devices:", videoInputs);
-        if (videoInputs.length === 0) {
-          setCameraError("No cameras found. Please connect a camera and try again.");
-          return;
-        }
-        setVideoDevices(videoInputs);
-        setSelectedDeviceId(videoInputs[0].deviceId || null);
-      } catch (err: unknown) {
-        console.error("Initial camera permission error:", err);
-        if (err instanceof DOMException) {
-          if (err.name === "NotAllowedError") {
-            setCameraError(
-              "Camera access denied. Please enable camera permissions in your browser or device settings (Settings > Safari > Camera)."
-            );
-          } else if (err.name === "NotFoundError") {
-            setCameraError("No camera found. Please ensure a camera is connected and try again.");
-          } else {
-            setCameraError(`Camera error: ${err.message}. Please check your device and refresh.`);
-          }
+    socketIdRef.current = socketId;
+  }, [socketId]);
+
+
+  // Request camera permission early to populate device details
+  const requestCameraPermission = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: true });
+      stream.getTracks().forEach((track) => track.stop());
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      const videoInputs = devices.filter((device) => device.kind === "videoinput");
+      console.log("Available video devices:", videoInputs);
+      if (videoInputs.length === 0) {
+        setCameraError("No cameras found. Please connect a camera and try again.");
+        return;
+      }
+      setVideoDevices(videoInputs);
+      setSelectedDeviceId(videoInputs[0].deviceId || null);
+    } catch (err: unknown) {
+      console.error("Initial camera permission error:", err);
+      if (err instanceof DOMException) {
+        if (err.name === "NotAllowedError") {
+          setCameraError(
+            "Camera access denied. Please enable camera permissions in your browser or device settings (Settings > Safari > Camera)."
+          );
+        } else if (err.name === "NotFoundError") {
+          setCameraError("No camera found. Please ensure a camera is connected and try again.");
         } else {
-          setCameraError("Unexpected camera error. Please refresh and try again.");
+          setCameraError(`Camera error: ${err.message}. Please check your device and refresh.`);
         }
+      } else {
+        setCameraError("Unexpected camera error. Please refresh and try again.");
       }
-    };
+    }
+  };
 
+  useEffect(() => {
     requestCameraPermission();
 
-    // Use environment variable for backend URL, fallback to deployed server
-    const serverUrl = process.env.NEXT_PUBLIC_BACKEND_URL || "https://ar-game-server.onrender.com";
+    // Use environment variable for backend URL, fallback to deployed server.
+    // NEXT_PUBLIC_USE_MOCK_SERVER points at the local stand-in from `npm run mock-server` instead.
+    const useMockServer = process.env.NEXT_PUBLIC_USE_MOCK_SERVER === "true";
+    const serverUrl = useMockServer
+      ? `http://${window.location.hostname}:${process.env.NEXT_PUBLIC_MOCK_SERVER_PORT || 4000}`
+      : process.env.NEXT_PUBLIC_BACKEND_URL || "https://ar-game-server.onrender.com";
     
-    console.log("Connecting to server:", serverUrl);
+    console.log("Connecting to server:", serverUrl, useMockServer ? "(mock)" : "");
     console.log("Environment:", process.env.NODE_ENV);
     console.log("NEXT_PUBLIC_BACKEND_URL:", process.env.NEXT_PUBLIC_BACKEND_URL);
     
-    socketRef.current = io(serverUrl, {
+    const socket: GameSocket = io(serverUrl, {
       reconnection: true,
       reconnectionAttempts: 5, // Reduced attempts
       reconnectionDelay: 1000,
@@ -123,80 +308,202 @@ export default function Game() {
       rememberUpgrade: true,
       withCredentials: true
     });
+    socketRef.current = socket;
+
+    // Malformed payloads from a mismatched server build end up here instead of in state
+    const reportProtocolError = (err: ProtocolError) => {
+      console.error("❌ Protocol error:", err.message);
+      setProtocolError(err.message);
+    };
+    const on = createValidatedListener(socket, reportProtocolError);
+
+    let handshakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+    // Replays the saved session token so the server hands back our seat.
+    // Spectators have no seat and just start watching again.
+    const rejoinRoom = () => {
+      const { isSpectator, roomCode } = phaseStore.get().room;
+      if (isSpectator && roomCode) {
+        console.log(`🔄 Back to spectating room ${roomCode}`);
+        sendPhase({ type: "reconnecting" });
+        socket.emit("spectateRoom", { roomCode });
+        return;
+      }
+      const session = loadRoomSession();
+      if (!session) {
+        return;
+      }
+      console.log(`🔄 Rejoining room ${session.roomCode} with saved session`);
+      sendPhase({ type: "reconnecting" });
+      socket.emit("rejoinRoom", { sessionToken: session.sessionToken });
+    };
 
-    socketRef.current.on("connect", () => {
-      console.log("Connected to server:", socketRef.current!.id);
-      const newSocketId = socketRef.current!.id || null;
+    socket.on("connect", () => {
+      console.log("Connected to server:", socket.id);
+      const newSocketId = socket.id || null;
       setSocketId(newSocketId);
       setConnectionStatus("connected");
       console.log("Set socketId to:", newSocketId);
       // Don't auto-join game anymore - user must choose room
+
+      // Protocol handshake - server answers with "welcome"
+      socket.emit("hello", { protocolVersion: PROTOCOL_VERSION });
+      if (handshakeTimer) clearTimeout(handshakeTimer);
+      handshakeTimer = setTimeout(() => {
+        console.warn(`⚠️ No protocol handshake from server after ${HANDSHAKE_TIMEOUT_MS}ms - assuming legacy server`);
+      }, HANDSHAKE_TIMEOUT_MS);
+
+      // New socket id after a reconnect or reload - ask for our old seat back
+      rejoinRoom();
     });
 
-    socketRef.current.on("connect_error", (error) => {
+    on("welcome", ({ protocolVersion }) => {
+      if (handshakeTimer) clearTimeout(handshakeTimer);
+      console.log(`Server protocol v${protocolVersion}, client v${PROTOCOL_VERSION}`);
+      const mismatch = checkProtocolVersion(protocolVersion);
+      if (mismatch) {
+        console.error("❌ Protocol mismatch:", mismatch);
+      }
+      setProtocolError(mismatch);
+      serverCountdownRef.current = protocolVersion >= SERVER_COUNTDOWN_VERSION;
+      if (serverCountdownRef.current) {
+        // A few quick round trips to get a clock offset before anyone readies up
+        for (let i = 0; i < CLOCK_SYNC_BURST; i++) {
+          setTimeout(() => socket.emit("timeSync", { clientSentAt: Date.now() }), i * 200);
+        }
+      }
+    });
+
+    on("timeSyncAck", (payload) => {
+      clockSamplesRef.current = addClockSample(clockSamplesRef.current, clockSample(payload));
+      clockOffsetRef.current = estimateOffset(clockSamplesRef.current);
+    });
+
+    socket.on("connect_error", (error) => {
       console.error("Connection failed:", error.message);
       setConnectionStatus("error");
-      alert(`Connection failed: ${error.message}. Please check your internet connection and try again.`);
+      // Mid-match the reconnect overlay already says what's going on
+      if (!phaseStore.get().room.isInRoom) {
+        alert(`Connection failed: ${error.message}. Please check your internet connection and try again.`);
+      }
     });
 
-    socketRef.current.on("disconnect", (reason) => {
+    socket.on("disconnect", (reason) => {
       console.log("Disconnected from server:", reason);
       setConnectionStatus("disconnected");
+      const { isInRoom, isSpectator, operatorId } = phaseStore.get().room;
+      if (isInRoom && !isSpectator && operatorId) {
+        setMatchLog((prev) => logEvent(prev, { type: "connection", operator: operatorId, connected: false }));
+      }
+      if (isInRoom) {
+        sendPhase({ type: "reconnecting" });
+      }
       if (reason === "io server disconnect") {
         // Server disconnected us, try to reconnect
-        socketRef.current?.connect();
+        socket.connect();
       }
     });
 
-    socketRef.current.on("reconnect", () => {
+    // Reconnection events are emitted by the manager, not the socket
+    socket.io.on("reconnect", () => {
       console.log("Reconnected to server");
       setConnectionStatus("connected");
     });
 
-    socketRef.current.on("reconnecting", () => {
+    socket.io.on("reconnect_attempt", () => {
       console.log("Attempting to reconnect...");
       setConnectionStatus("connecting");
     });
 
-    socketRef.current.on("roomCreated", ({ roomCode }: { roomCode: string }) => {
+    on("roomCreated", ({ roomCode, sessionToken, operatorId, settings }) => {
       console.log("Room created:", roomCode);
-      console.log("Current socketId when room created:", socketId);
+      console.log("Current socketId when room created:", socketIdRef.current);
       console.log("Socket.io ID when room created:", socketRef.current?.id);
       // Update socketId to match current socket
       const currentSocketId = socketRef.current?.id;
-      if (currentSocketId && currentSocketId !== socketId) {
-        console.log(`Updating socketId from ${socketId} to ${currentSocketId}`);
+      if (currentSocketId && currentSocketId !== socketIdRef.current) {
+        console.log(`Updating socketId from ${socketIdRef.current} to ${currentSocketId}`);
         setSocketId(currentSocketId);
       }
-      console.log("Setting room state and game status to waiting...");
-      setRoomState({ isInRoom: true, roomCode, isHost: true });
-      setGameStatus("waiting");
-      console.log("Room creation complete - should be in waiting state");
+      console.log("Entering room briefing...");
+      sendPhase({
+        type: "enterRoom",
+        room: { isInRoom: true, roomCode, isHost: true, operatorId: operatorId ?? null, settings: settings ?? DEFAULT_ROOM_SETTINGS, isSpectator: false },
+      });
+      setMatchLog([]);
+      if (sessionToken) {
+        saveRoomSession({ sessionToken, roomCode });
+      }
+      console.log("Room creation complete - should be in the briefing");
     });
 
-    socketRef.current.on("roomJoined", ({ roomCode }: { roomCode: string }) => {
+    on("roomJoined", ({ roomCode, sessionToken, operatorId, settings }) => {
       console.log("Room joined:", roomCode);
-      console.log("Current socketId when room joined:", socketId);
+      console.log("Current socketId when room joined:", socketIdRef.current);
       console.log("Socket.io ID when room joined:", socketRef.current?.id);
       // Update socketId to match current socket
       const currentSocketId = socketRef.current?.id;
-      if (currentSocketId && currentSocketId !== socketId) {
-        console.log(`Updating socketId from ${socketId} to ${currentSocketId}`);
+      if (currentSocketId && currentSocketId !== socketIdRef.current) {
+        console.log(`Updating socketId from ${socketIdRef.current} to ${currentSocketId}`);
         setSocketId(currentSocketId);
       }
-      console.log("Setting room state and game status to waiting...");
-      setRoomState({ isInRoom: true, roomCode, isHost: false });
-      setGameStatus("waiting");
-      console.log("Room join complete - should be in waiting state");
+      console.log("Entering room briefing...");
+      sendPhase({
+        type: "enterRoom",
+        room: { isInRoom: true, roomCode, isHost: false, operatorId: operatorId ?? null, settings: settings ?? DEFAULT_ROOM_SETTINGS, isSpectator: false },
+      });
+      setMatchLog([]);
+      if (sessionToken) {
+        saveRoomSession({ sessionToken, roomCode });
+      }
+      console.log("Room join complete - should be in the briefing");
+    });
+
+    on("roomRejoined", ({ roomCode, sessionToken, operatorId, isHost, settings }) => {
+      console.log(`✅ Rejoined room ${roomCode} as ${isHost ? "host" : "guest"} with socket ${socket.id}`);
+      setSocketId(socket.id || null);
+      // After a page reload we come back from the lobby; otherwise carry on where we were
+      sendPhase({
+        type: "enterRoom",
+        room: { isInRoom: true, roomCode, isHost, operatorId, settings: settings ?? DEFAULT_ROOM_SETTINGS, isSpectator: false },
+      });
+      saveRoomSession({ sessionToken, roomCode });
+      setMatchLog((prev) => logEvent(prev, { type: "connection", operator: operatorId, connected: true }));
+    });
+
+    on("rejoinError", ({ message }) => {
+      console.warn("⚠️ Could not rejoin room:", message);
+      clearRoomSession();
+      const wasInRoom = phaseStore.get().room.isInRoom;
+      sendPhase({ type: "leaveRoom" });
+      if (wasInRoom) {
+        setPlayers([]);
+        alert(`❌ Lost connection to the match: ${message}`);
+      }
     });
 
-    socketRef.current.on("joinError", ({ message }: { message: string }) => {
+    on("joinError", ({ message }) => {
       console.error("Join error:", message);
       setJoinRoomCode(""); // Clear the input
-      alert(`❌ Failed to join room: ${message}\n\nPlease check:\n• Room code is correct (6 characters)\n• Room still exists\n• Room is not full (max 2 players)`);
+      alert(`❌ Failed to join room: ${message}\n\nPlease check:\n• Room code is correct (6 characters)\n• Room still exists\n• Room is not full`);
+    });
+
+    on("spectating", ({ roomCode, settings }) => {
+      console.log(`👁 Spectating room ${roomCode}`);
+      // Carries on where we were if this is a reconnect mid-match
+      sendPhase({ type: "enterRoom", room: { isInRoom: true, roomCode, isHost: false, operatorId: null, settings, isSpectator: true } });
     });
 
-    socketRef.current.on("roomInfo", (info: RoomInfo) => {
+    on("spectateError", ({ message }) => {
+      console.error("Spectate error:", message);
+      if (phaseStore.get().room.isSpectator) {
+        sendPhase({ type: "leaveRoom" });
+        setPlayers([]);
+      }
+      alert(`❌ Failed to spectate room: ${message}`);
+    });
+
+    on("roomInfo", (info) => {
       console.log("Room info received:", info);
       if (info.error) {
         console.log("Room debug info: Room does not exist");
@@ -205,90 +512,264 @@ export default function Game() {
       }
     });
 
-    socketRef.current.on("gameFull", () => {
+    on("gameFull", () => {
       alert("Game is full! Please try again later.");
     });
 
-    socketRef.current.on("playerUpdate", (updatedPlayers: Player[]) => {
+    on("playerUpdate", (updatedPlayers) => {
       console.log("Player update received:", updatedPlayers);
-      console.log("Current socketId:", socketId);
+      console.log("Current socketId:", socketIdRef.current);
       console.log("Socket.io ID during player update:", socketRef.current?.id);
       console.log("Players with isHost property:", updatedPlayers.map(p => ({ id: p.id, isHost: p.isHost })));
       
       // Ensure socketId is synced with current socket before processing players
       const currentSocketId = socketRef.current?.id;
-      if (currentSocketId && currentSocketId !== socketId) {
-        console.log(`Syncing socketId from ${socketId} to ${currentSocketId} during playerUpdate`);
+      if (currentSocketId && currentSocketId !== socketIdRef.current) {
+        console.log(`Syncing socketId from ${socketIdRef.current} to ${currentSocketId} during playerUpdate`);
         setSocketId(currentSocketId);
       }
       
       setPlayers(updatedPlayers);
+      const changes = rosterChanges(playersRef.current, updatedPlayers);
+      setMatchLog((prev) => logEvents(prev, changes));
+      playersRef.current = updatedPlayers;
       
-      // Only check for countdown if we're in waiting status and actually in a room
-      // Use refs to get current state values instead of stale closure values
-      const currentGameStatus = gameStatusRef.current;
-      const currentRoomState = roomStateRef.current;
-      
-      if (currentGameStatus === "waiting" && currentRoomState.isInRoom) {
-        // Check if both players are ready for countdown
+      // Only check for countdown while briefing. The store has the current
+      // phase, not the one this handler was created with.
+      const current = phaseStore.get();
+      if (current.name === "inRoom" || current.name === "roundOver") {
+        // Check if enough players are in and all of them are ready
         console.log("=== COUNTDOWN CHECK ===");
         console.log("Player count:", updatedPlayers.length);
-        console.log("Game status (current):", currentGameStatus);
-        console.log("Room state (current):", currentRoomState);
+        console.log("Phase (current):", current.name);
+        console.log("Room state (current):", current.room);
         console.log("Players ready status:", updatedPlayers.map(p => ({ id: p.id.slice(0, 8), ready: p.ready })));
         console.log("All players ready:", updatedPlayers.every((p) => p.ready));
-        console.log("Should start countdown:", updatedPlayers.length === 2 && updatedPlayers.every((p) => p.ready));
+        const shouldStart = canStartMatch(updatedPlayers, current.room.settings);
+        console.log("Should start countdown:", shouldStart);
         
-        if (updatedPlayers.length === 2 && updatedPlayers.every((p) => p.ready)) {
+        if (shouldStart && serverCountdownRef.current) {
+          console.log("Waiting for the server to schedule the countdown");
+        } else if (shouldStart) {
+          // Older servers don't send matchStart - run our own countdown
           console.log("🚀 STARTING COUNTDOWN!");
-          startCountdown();
+          sendPhase({ type: "countdownStarted", startsAt: Date.now() + COUNTDOWN_MS, offset: 0 });
+          setMatchLog((prev) => logEvent(prev, { type: "countdown" }));
         } else {
           console.log("❌ Not starting countdown - conditions not met");
         }
         console.log("=====================");
       } else {
-        console.log(`Skipping countdown check - game status: ${currentGameStatus}, in room: ${currentRoomState.isInRoom}`);
+        console.log(`Skipping countdown check - phase: ${current.name}`);
       }
     });
 
-    socketRef.current.on("gameOver", ({ winner, winnerIsHost }: { winner: string, winnerIsHost: boolean }) => {
-      console.log("Game over, winner:", winner, "winnerIsHost:", winnerIsHost);
-      console.log("Current room state:", roomState);
-      setGameStatus("over");
-      console.log("Setting winner to:", winner);
-      setWinner(winner);
-      
-      // Store winner role info for victory/defeat determination
-      setRoomState(prev => ({ ...prev, winnerIsHost }));
+    on("playerHit", ({ shooter, target, weapon, zone, damage, health }) => {
+      console.log(`💥 ${shooter} hit ${target} in the ${zone} with ${weapon} for ${damage}, ${health} left`);
+      setMatchLog((prev) =>
+        logEvents(prev, [
+          { type: "hit", shooter, target, weapon, zone, damage, health },
+          ...(health <= 0 ? [{ type: "eliminated" as const, operator: target, by: shooter }] : []),
+        ])
+      );
+      const self = phaseStore.get().room.operatorId ?? socket.id;
+      hitFeedbackIdRef.current += 1;
+      const id = hitFeedbackIdRef.current;
+      if (shooter === self) {
+        setHitMarker({ id, damage, zone, eliminated: health <= 0 });
+        setTimeout(() => setHitMarker((prev) => (prev?.id === id ? null : prev)), HIT_MARKER_MS);
+        if (hitSoundRef.current) {
+          hitSoundRef.current.currentTime = 0;
+          hitSoundRef.current.play().catch((err: Error) => console.error("Hit sound error:", err));
+        }
+      }
+      if (target === self) {
+        setDamageFlash({ id, damage, zone });
+        setTimeout(() => setDamageFlash((prev) => (prev?.id === id ? null : prev)), DAMAGE_FLASH_MS);
+        // Phones buzz harder for a headshot
+        navigator.vibrate?.(zone === "head" ? [80, 40, 80] : 60);
+      }
+    });
+
+    // Our own shots are logged as they're fired; this covers everyone else's
+    on("shotFired", ({ shooter, weapon }) => {
+      setMatchLog((prev) => logEvent(prev, { type: "shot", shooter, weapon }));
+    });
+
+    on("matchStart", ({ startsAt, serverNow }) => {
+      console.log("🚀 Match start:", startsAt, "server now:", serverNow);
+      if (startsAt === null) {
+        // Someone stood down or left before the countdown finished
+        sendPhase({ type: "countdownCancelled" });
+        return;
+      }
+      // Mid-combat this is only the catch-up after a reconnect, and gets
+      // dropped. While paused it's the countdown back into play.
+      const before = phaseStore.get().name;
+      const offset = clockOffsetRef.current ?? serverNow - Date.now();
+      if (sendPhase({ type: "countdownStarted", startsAt, offset }) && before !== "countdown" && before !== "paused") {
+        setMatchLog((prev) => logEvent(prev, { type: "countdown" }));
+      }
+    });
+
+    on("matchPaused", ({ operator, cause, forfeitAt, serverNow }) => {
+      console.log(`⏸ Match paused: ${operator} ${cause}, forfeit at ${forfeitAt}`);
+      const offset = clockOffsetRef.current ?? serverNow - Date.now();
+      if (sendPhase({ type: "pause", operator, cause, forfeitAt, offset })) {
+        // While several operators are gone the server repeats whoever play is
+        // still waiting on - only log the first time they dropped out
+        setMatchLog((prev) => {
+          const holdStart = prev.findLastIndex((entry) => ["resumed", "round", "result"].includes(entry.type)) + 1;
+          const logged = prev.slice(holdStart).some((entry) => entry.type === "paused" && entry.operator === operator);
+          return logged ? prev : logEvent(prev, { type: "paused", operator, cause });
+        });
+      }
+    });
+
+    on("matchClock", (payload) => {
+      console.log("⏱ Match clock:", payload);
+      setMatchClock(toMatchClock(payload, clockOffsetRef.current ?? undefined));
+      if (payload.suddenDeath) {
+        setMatchLog((prev) => logEvent(prev, { type: "suddenDeath" }));
+        sendPhase({ type: "suddenDeath" });
+      }
+    });
+
+    on("gameOver", ({ winner, winnerOperatorId, winnerIsHost, placements, winningTeam, roundResults, matchOver, reason, forfeit }) => {
+      console.log("Game over, winner:", winner, "operator:", winnerOperatorId, "winnerIsHost:", winnerIsHost, "placements:", placements, "team:", winningTeam, "reason:", reason, "forfeit:", forfeit);
+      setRoundResults(roundResults ?? []);
+      setGameOverReason(reason ?? null);
+      setForfeit(forfeit ?? null);
+      setMatchClock(null);
+      const lastResult = roundResults?.[roundResults.length - 1];
+      const side = winningTeam ?? winnerOperatorId ?? winner;
+      setMatchLog((prev) =>
+        logEvent(
+          prev,
+          matchOver === false && lastResult
+            ? { type: "round", round: lastResult.round, side, reason }
+            : { type: "result", side, reason }
+        )
+      );
+
+      if (matchOver === false) {
+        // Only a round - back to the briefing for weapon swaps. Everyone stays
+        // ready, so the countdown restarts once the server resets health.
+        console.log(`Round ${roundResults?.length ?? "?"} over, next round coming up`);
+        sendPhase({ type: "roundOver" });
+        refillMagazine(selectedGunRef.current);
+        if (hitSoundRef.current) {
+          hitSoundRef.current.play().catch((err: Error) => console.error("Hit sound error:", err));
+        }
+        return;
+      }
+
+      setWinningTeam(winningTeam ?? null);
+      sendPhase({ type: "matchOver" });
+      // Compared against our own operator key for victory/defeat
+      setWinner(winnerOperatorId ?? winner);
+      setPlacements(placements ?? []);
       
       if (hitSoundRef.current) {
         hitSoundRef.current.play().catch((err: Error) => console.error("Hit sound error:", err));
       }
     });
 
+    on("rematchRequested", (payload) => {
+      console.log(`🔁 Rematch requested by ${payload.from}, accepted by`, payload.accepted);
+      setRematch({ ...payload, offset: clockOffsetRef.current ?? payload.serverNow - Date.now() });
+      setRematchNotice(null);
+    });
+
+    on("rematchAccepted", ({ weapons, swapWeapons, swapSides }) => {
+      console.log("🔁 Rematch on, swap weapons:", swapWeapons, "swap sides:", swapSides);
+      const self = phaseStore.get().room.operatorId ?? socket.id;
+      const gun = (self && weapons[self]) || selectedGunRef.current;
+      resetMatch();
+      setSelectedGun(gun);
+      refillMagazine(gun);
+    });
+
+    on("rematchCancelled", ({ reason, by }) => {
+      console.log(`🔁 Rematch off: ${reason}${by ? ` (${by})` : ""}`);
+      setRematch(null);
+      const label = by ? operatorLabel(hostFirst(playersRef.current).findIndex((p) => operatorKey(p) === by)) : "AN OPERATOR";
+      if (reason !== "declined") {
+        setRematchNotice(reason === "timeout" ? "REMATCH REQUEST EXPIRED" : `${label} LEFT THE ROOM`);
+        return;
+      }
+      // A declined rematch breaks the room up - everyone heads back to the lobby
+      const self = phaseStore.get().room.operatorId ?? socket.id;
+      leaveRoom();
+      if (by !== self) {
+        alert(`${label} declined the rematch`);
+      }
+    });
+
+    on("rematchError", ({ message }) => {
+      console.error("❌ Rematch error from server:", message);
+      alert(`Rematch failed: ${message}`);
+    });
+
+    on("hostChanged", ({ host }) => {
+      const { room } = phaseStore.get();
+      const self = room.operatorId ?? socket.id;
+      console.log(`👑 Host left, ${host === self ? "we are" : `${host} is`} now the host`);
+      if (!room.isSpectator) {
+        sendPhase({ type: "hostChanged", isHost: host === self });
+      }
+    });
+
+    on("matchAbandoned", () => {
+      // Nobody left to fight - wait in the briefing for new opponents
+      console.log("🏳 Match abandoned, back to the briefing");
+      resetMatch();
+      refillMagazine(selectedGunRef.current);
+    });
+
     // Add error handler for setReady failures
-    socketRef.current.on("setReadyError", ({ message }: { message: string }) => {
+    on("setReadyError", ({ message }) => {
       console.error("❌ setReady error from server:", message);
       alert(`Failed to update ready status: ${message}`);
     });
 
+    on("setTeamError", ({ message }) => {
+      console.error("❌ setTeam error from server:", message);
+      alert(`Failed to switch team: ${message}`);
+    });
+
+    on("settingsChanged", ({ settings }) => {
+      console.log("⚙️ Room settings changed:", settings);
+      sendPhase({ type: "settingsChanged", settings });
+    });
+
+    on("settingsError", ({ message }) => {
+      console.error("❌ Settings error from server:", message);
+      alert(`Failed to change room settings: ${message}`);
+    });
+
     // Add heartbeat mechanism to maintain connection and room mapping
     const heartbeatInterval = setInterval(() => {
-      if (socketRef.current?.connected && roomState.isInRoom) {
-        socketRef.current.emit("heartbeat");
+      if (socket.connected && phaseStore.get().room.isInRoom) {
+        socket.emit("heartbeat");
+        // Keep the clock offset fresh in case either clock drifts
+        if (serverCountdownRef.current) {
+          socket.emit("timeSync", { clientSentAt: Date.now() });
+        }
       }
     }, 10000); // Every 10 seconds
 
-    socketRef.current.on("heartbeatAck", ({ roomCode, playerId }: { roomCode: string | null, playerId: string }) => {
-      if (!roomCode && roomState.isInRoom) {
+    on("heartbeatAck", ({ roomCode }) => {
+      if (!roomCode && phaseStore.get().room.isInRoom) {
         console.warn("⚠️ Server lost room mapping, attempting to rejoin room");
-        // Could implement room rejoin logic here if needed
+        rejoinRoom();
       }
     });
 
     return () => {
       // Clear heartbeat interval
       clearInterval(heartbeatInterval);
+      if (handshakeTimer) clearTimeout(handshakeTimer);
       
       // Only disconnect when component unmounts completely, not on re-renders
       if (process.env.NODE_ENV === 'production') {
@@ -297,13 +778,68 @@ export default function Game() {
         socketRef.current?.disconnect();
       }
     };
-  }, []); // Remove gameStatus dependency to prevent reconnection loop
+  }, []); // Remove phase dependency to prevent reconnection loop
+
+  // Spectators never open the camera. Sudden death keeps the camera from the
+  // round it carries on from, and the briefing keeps it through the countdown.
+  const cameraPhase = roomState.isSpectator ? "off" : inCombat ? "combat" : briefing ? "briefing" : "off";
+
+  // Count down to the start of combat, or back into it after a pause. It's
+  // worked out from the start time rather than counted in steps, so a repeated
+  // or corrected matchStart just moves the target instead of running a second
+  // timer alongside the first.
+  const countdownTarget = phase.name === "countdown" ? phase.startsAt : phase.name === "paused" ? phase.resumesAt : null;
+  const countdownOffset = phase.name === "countdown" || phase.name === "paused" ? phase.offset : 0;
+  const resuming = phase.name === "paused";
+  useEffect(() => {
+    if (countdownTarget === null) {
+      setCountdown(null);
+      return;
+    }
+    let started = false;
+    const tick = () => {
+      const left = msUntil(countdownTarget, countdownOffset);
+      if (left > 0) {
+        setCountdown(Math.ceil(left / 1000));
+        return;
+      }
+      if (started) {
+        return;
+      }
+      started = true;
+      sendPhase({ type: resuming ? "resume" : "combatStarted" });
+      setMatchLog((prev) => logEvent(prev, { type: resuming ? "resumed" : "combat" }));
+    };
+    tick();
+    const timer = setInterval(tick, 100);
+    return () => clearInterval(timer);
+  }, [countdownTarget, countdownOffset, resuming]);
 
-  // Start camera only when in waiting or ready state
+  // Tell the server when our camera fails mid-match so it holds play for us
+  const cameraDown = cameraError !== null || cameraRetrying;
   useEffect(() => {
-    if ((gameStatus !== "waiting" && gameStatus !== "ready") || !videoRef.current || !canvasRef.current || !selectedDeviceId) {
+    if (roomState.isInRoom && !roomState.isSpectator) {
+      socketRef.current?.emit("cameraStatus", { ok: !cameraDown });
+    }
+  }, [cameraDown, roomState.isInRoom, roomState.isSpectator]);
+
+  // Tick the match clock display while a timed round is running, the forfeit
+  // timer while play is paused, and a pending rematch's expiry
+  const forfeitAt = phase.name === "paused" ? phase.forfeitAt : null;
+  const rematchExpiresAt = rematch?.expiresAt ?? null;
+  useEffect(() => {
+    if ((!matchClock || matchClock.endsAt === null) && forfeitAt === null && rematchExpiresAt === null) {
+      return;
+    }
+    const timer = setInterval(() => setClockNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [matchClock, forfeitAt, rematchExpiresAt]);
+
+  // Start camera only while briefing or in combat
+  useEffect(() => {
+    if (cameraPhase === "off" || !videoRef.current || !canvasRef.current || !selectedDeviceId) {
       console.log("Not ready yet:", {
-        gameStatus,
+        cameraPhase,
         video: !!videoRef.current,
         canvas: !!canvasRef.current,
         device: !!selectedDeviceId,
@@ -313,10 +849,23 @@ export default function Game() {
 
     console.log("Starting camera and AR with device:", selectedDeviceId);
 
+    let cancelled = false;
+    let animationFrameId: number | null = null;
+    let activeStream: MediaStream | null = null;
+
     const attemptCameraAccess = async () => {
       try {
         const stream = await navigator.mediaDevices.getUserMedia({ video: { deviceId: { exact: selectedDeviceId } } });
         console.log("Camera stream obtained");
+        // Unplugged, or permission pulled mid-match
+        stream.getVideoTracks().forEach((track) => {
+          track.onended = () => {
+            if (!cancelled) {
+              setCameraError("Camera feed lost. Check the camera is still connected and retry.");
+            }
+          };
+        });
+        activeStream = stream;
         videoRef.current!.srcObject = stream;
         videoRef.current!.width = 640; // PoseNet processing size
         videoRef.current!.height = 480;
@@ -328,6 +877,7 @@ export default function Game() {
                 width: videoRef.current!.videoWidth,
                 height: videoRef.current!.videoHeight,
               });
+              setCameraRetrying(false);
               initAR();
             })
             .catch((err: Error) => {
@@ -374,19 +924,9 @@ export default function Game() {
 
       // Improved Crosshair based on selected gun
       const crosshairGroup = new THREE.Group();
-      let crosshairGeo: THREE.RingGeometry;
-      let crosshairMat: THREE.MeshBasicMaterial;
-      if (selectedGun === "sniper") {
-        crosshairGeo = new THREE.RingGeometry(0.01, 0.02, 32);
-        crosshairMat = new THREE.MeshBasicMaterial({ color: 0x00ff00 });
-      } else if (selectedGun === "pistol") {
-        crosshairGeo = new THREE.RingGeometry(0.02, 0.04, 32);
-        crosshairMat = new THREE.MeshBasicMaterial({ color: 0xff0000 });
-      } else {
-        // Shotgun
-        crosshairGeo = new THREE.RingGeometry(0.05, 0.08, 32);
-        crosshairMat = new THREE.MeshBasicMaterial({ color: 0xffff00 });
-      }
+      const crosshairSpec = getWeapon(selectedGun).crosshair;
+      const crosshairGeo = new THREE.RingGeometry(crosshairSpec.innerRadius, crosshairSpec.outerRadius, 32);
+      const crosshairMat = new THREE.MeshBasicMaterial({ color: crosshairSpec.color });
       const crosshair = new THREE.Mesh(crosshairGeo, crosshairMat);
       crosshair.position.set(0, 0, -0.5); // Centered at origin (0,0) which is the center of the renderer
       crosshairGroup.add(crosshair);
@@ -412,58 +952,353 @@ export default function Game() {
       await tf.ready();
       console.log("TensorFlow.js backend set to WebGL");
 
-      // PoseNet setup
-      const screenWidth = window.innerWidth;
-      const screenHeight = window.innerHeight;
-      const useLowRes = screenWidth < 640 || screenHeight < 480;
-      netRef.current = await posenet.load({
-        architecture: "MobileNetV1",
-        outputStride: 16,
-        inputResolution: { width: 640, height: 420 },
-        multiplier: 0.75,
-      });
-      console.log(`PoseNet loaded with resolution: 640x480, Low Res: ${useLowRes}`);
+      // Pose detector setup
+      let detector: PoseDetector;
+      try {
+        detector = await createPoseDetector(poseBackend);
+      } catch (err: unknown) {
+        console.error(`Failed to load ${poseBackend} pose detector:`, err);
+        setCameraError(
+          `Failed to load the ${POSE_BACKENDS[poseBackend].label} tracking model: ${err instanceof Error ? err.message : "Unknown error"}. Try another model in settings.`
+        );
+        return;
+      }
+      if (cancelled) {
+        detector.dispose();
+        return;
+      }
+      detectorRef.current = detector;
+      console.log(`Pose detector loaded: ${poseBackend}`);
+
+      // Continuous pose tracking, throttled to POSE_TRACKING_INTERVAL_MS
+      const weapon = getWeapon(selectedGun);
+      const hitArea = crosshairForWeapon(weapon);
+      const overlayCtx = overlayCanvasRef.current?.getContext("2d") ?? null;
+      let lastEstimate = 0;
+      let estimating = false;
+
+      const trackPose = (time: number) => {
+        const video = videoRef.current;
+        if (estimating || time - lastEstimate < POSE_TRACKING_INTERVAL_MS || !video || video.readyState < 2) {
+          return;
+        }
+        estimating = true;
+        lastEstimate = time;
+        detector
+          .estimatePoses(video)
+          .then((poses) => {
+            if (cancelled) return;
+            latestPosesRef.current = { poses, timestamp: Date.now() };
+            const lock = selectTarget(poses, weapon, hitArea);
+            const zone = lock?.hit.zone ?? null;
+            const locked = lock ? personNumber(poses, lock.index) : null;
+            setTargetStatus((prev) =>
+              prev.people === poses.length && prev.locked === locked && prev.zone === zone
+                ? prev
+                : { people: poses.length, locked, zone }
+            );
+            if (overlayCtx) {
+              if (poses.length) {
+                drawPoseOverlay(overlayCtx, poses, {
+                  lockedIndex: lock?.index ?? null,
+                  targetZone: zone,
+                  hitRadius: weapon.hitRadius,
+                });
+              } else {
+                clearPoseOverlay(overlayCtx);
+              }
+            }
+          })
+          .catch((err: unknown) => console.error("Pose tracking error:", err instanceof Error ? err.message : err))
+          .finally(() => {
+            estimating = false;
+          });
+      };
 
-      const animate = () => {
-        requestAnimationFrame(animate);
+      const animate = (time: number) => {
+        if (cancelled) return;
+        animationFrameId = requestAnimationFrame(animate);
+        trackPose(time);
         renderer.render(scene, camera);
       };
-      animate();
-      console.log("Animation started");
+      animationFrameId = requestAnimationFrame(animate);
+      console.log("Animation and pose tracking started");
+    };
+
+    return () => {
+      cancelled = true;
+      if (animationFrameId !== null) {
+        cancelAnimationFrame(animationFrameId);
+      }
+      latestPosesRef.current = null;
+      setTargetStatus({ people: 0, locked: null, zone: null });
+      detectorRef.current?.dispose();
+      detectorRef.current = null;
+      activeStream?.getTracks().forEach((track) => track.stop());
     };
-  }, [gameStatus, selectedDeviceId, selectedGun]);
-
-  // Start 5-second countdown when both players are ready
-  const startCountdown = () => {
-    // Don't start countdown if game is over or not in waiting state
-    // Use ref to get current state value
-    const currentGameStatus = gameStatusRef.current;
-    if (currentGameStatus !== "waiting") {
-      console.log(`Countdown cancelled - game status is: ${currentGameStatus}`);
+  }, [cameraPhase, selectedDeviceId, selectedGun, poseBackend, cameraAttempt]);
+
+  // Finished matches go into the service record. The result isn't always the
+  // newest entry - a late shot or someone leaving can land after it - so look
+  // back for it. Spectators have nothing to record.
+  useEffect(() => {
+    const resultIndex = matchLog.findLastIndex((entry) => entry.type === "result");
+    const result = matchLog[resultIndex];
+    if (!result || roomState.isSpectator || !selfKey || savedResultRef.current === result.at) {
       return;
     }
-    
-    console.log(`Starting countdown - game status confirmed: ${currentGameStatus}`);
-    let timeLeft = 5;
-    setCountdown(timeLeft);
-    const timer = setInterval(() => {
-      timeLeft -= 1;
-      setCountdown(timeLeft);
-      if (timeLeft <= 0) {
-        clearInterval(timer);
-        setCountdown(null);
-        // Only change to ready if still in waiting state
-        setGameStatus(prev => prev === "waiting" ? "ready" : prev);
-      }
-    }, 1000);
+    savedResultRef.current = result.at;
+    const ordered = hostFirst(players);
+    const ownTeam = ordered.find((player) => operatorKey(player) === selfKey)?.team;
+    const record = buildMatchRecord({
+      log: matchLog.slice(0, resultIndex + 1),
+      self: selfKey,
+      opponents: ordered.flatMap((player, index) =>
+        operatorKey(player) === selfKey || (ownTeam && player.team === ownTeam) ? [] : [operatorLabel(index)]
+      ),
+      mode: roomState.settings.mode,
+      won: isVictory,
+      equipped: selectedGun,
+    });
+    saveMatch(record)
+      .then(() => console.log("📁 Match saved to service record:", record))
+      .catch((err: unknown) => console.error("Could not save match history:", err));
+  }, [matchLog, players, roomState.isSpectator, roomState.settings.mode, selfKey, isVictory, selectedGun]);
+
+  const openServiceRecord = async () => {
+    try {
+      setMatchHistory(await loadMatches());
+    } catch (err: unknown) {
+      console.error("Could not load match history:", err);
+      setMatchHistory([]);
+    }
+    setShowServiceRecord(true);
+  };
+
+  const exportServiceRecord = () => {
+    const url = URL.createObjectURL(new Blob([exportHistory(matchHistory)], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `d3athsync-service-record-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importServiceRecord = async (file: File) => {
+    try {
+      const records = importHistory(await file.text());
+      await saveMatches(records);
+      setMatchHistory(await loadMatches());
+      alert(`Imported ${records.length} match${records.length === 1 ? "" : "es"}`);
+    } catch (err: unknown) {
+      console.error("Import failed:", err);
+      alert(`❌ Import failed: ${err instanceof Error ? err.message : "unknown error"}`);
+    }
+  };
+
+  // Per-operator stats and hit maps for the end of the match
+  const renderDebrief = () => {
+    const damageLine = (totals: Partial<Record<WeaponId, number>>) =>
+      (Object.entries(totals) as [WeaponId, number][]).map(([weapon, damage]) => `${getWeapon(weapon).label} ${damage}`).join(" • ") ||
+      "—";
+    return (
+      <div className="mb-6 sm:mb-8 text-left">
+        <div className="font-orbitron text-xs sm:text-sm text-gray-400 text-center mb-3">
+          MISSION TIME {formatClock(matchDuration(matchLog))}
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {orderedPlayers.map((player, index) => {
+            const stats = operatorStats(matchLog, operatorKey(player));
+            const heat = zoneHeat(stats.zones);
+            // Hits landed are shaded on the silhouette, darker where more of them went
+            const zoneFill = (share: number) => ({ fill: "rgb(248 113 113)", fillOpacity: 0.1 + 0.8 * share });
+            return (
+              <div
+                key={stats.operator}
+                className={`rounded-lg p-3 flex gap-3 ${isSelf(player) ? "tactical-overlay" : "tactical-overlay-red"}`}
+              >
+                <svg viewBox="0 0 60 120" className="w-10 h-20 shrink-0" aria-label={`${operatorLabel(index)} hit map`}>
+                  <circle cx="30" cy="14" r="11" {...zoneFill(heat.head)} stroke="rgb(156 163 175)" strokeOpacity={0.5} />
+                  <rect x="14" y="28" width="32" height="42" rx="6" {...zoneFill(heat.torso)} stroke="rgb(156 163 175)" strokeOpacity={0.5} />
+                  <rect x="16" y="72" width="28" height="46" rx="5" {...zoneFill(heat.lowerBody)} stroke="rgb(156 163 175)" strokeOpacity={0.5} />
+                </svg>
+                <div className="font-orbitron text-xs space-y-1 min-w-0">
+                  <div className={`font-bold ${isSelf(player) ? "text-green-400" : "text-red-400"}`}>
+                    {operatorLabel(index)}
+                    {isSelf(player) && " (YOU)"}
+                  </div>
+                  <div className="text-gray-300">
+                    ACCURACY <span className="text-yellow-400 font-bold">{Math.round(stats.accuracy * 100)}%</span> ({stats.hits}/{stats.shots})
+                  </div>
+                  <div className="text-gray-400">
+                    HEAD {stats.zones.head} • TORSO {stats.zones.torso} • LOWER {stats.zones.lowerBody}
+                  </div>
+                  <div className="text-gray-400 truncate">DEALT: {damageLine(stats.damageDealt)}</div>
+                  <div className="text-gray-400 truncate">TAKEN: {damageLine(stats.damageTaken)}</div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  // One line of the event/kill feed
+  const logText = (entry: MatchLogEntry) => {
+    switch (entry.type) {
+      case "ready":
+        return `${labelFor(entry.operator)} ${entry.ready ? "READY" : "STANDING DOWN"}`;
+      case "connection":
+        return `${labelFor(entry.operator)} ${entry.connected ? "RECONNECTED" : "SIGNAL LOST"}`;
+      case "countdown":
+        return "ALL OPERATORS READY • COUNTDOWN STARTED";
+      case "combat":
+        return "COMBAT LIVE";
+      case "shot":
+        return `${labelFor(entry.shooter)} FIRED ${getWeapon(entry.weapon).label}`;
+      case "hit":
+        return `${labelFor(entry.shooter)} ◊ ${entry.zone === "head" ? "HEADSHOT" : HIT_ZONE_LABELS[entry.zone]} −${entry.damage} ▸ ${labelFor(entry.target)}`;
+      case "eliminated":
+        return `${labelFor(entry.by)} ✖ ${labelFor(entry.operator)}`;
+      case "suddenDeath":
+        return "TIME EXPIRED LEVEL • SUDDEN DEATH";
+      case "paused":
+        return `${labelFor(entry.operator)} ${entry.cause === "camera" ? "CAMERA OFFLINE" : "SIGNAL LOST"} • PLAY PAUSED`;
+      case "resumed":
+        return "PLAY RESUMED";
+      case "round":
+        return `ROUND ${entry.round} TO ${sideLabel(entry.side)}`;
+      case "result":
+        return `${sideLabel(entry.side)} WINS THE MATCH`;
+    }
   };
 
+  const logTone = (entry: MatchLogEntry) =>
+    entry.type === "eliminated" ||
+    entry.type === "suddenDeath" ||
+    entry.type === "paused" ||
+    (entry.type === "connection" && !entry.connected)
+      ? "text-red-400"
+      : entry.type === "round" || entry.type === "result" || (entry.type === "hit" && entry.zone === "head")
+        ? "text-yellow-400"
+        : entry.type === "hit" || entry.type === "shot"
+          ? "text-gray-300"
+          : "text-green-400";
+
+  // Game-over actions: ask for a rematch, or answer one someone else asked for
+  const renderRematch = () => {
+    const buttonClass =
+      "font-orbitron font-bold py-3 sm:py-4 px-6 sm:px-8 text-sm sm:text-base rounded-lg transition-all transform hover:scale-105 neon-text flex-1";
+    const leaveButton = (
+      <button onClick={leaveRoom} className={`bg-red-600/20 border-2 border-red-400 text-red-400 hover:bg-red-600/30 ${buttonClass}`}>
+        LEAVE ROOM
+      </button>
+    );
+    if (roomState.isSpectator) {
+      return <div className="flex flex-col sm:flex-row gap-3 sm:gap-4">{leaveButton}</div>;
+    }
+    if (!rematch) {
+      return (
+        <>
+          <div className="flex flex-wrap justify-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={rematchOptions.swapWeapons}
+                onChange={(e) => setRematchOptions((prev) => ({ ...prev, swapWeapons: e.target.checked }))}
+                className="accent-blue-400"
+              />
+              <span className="font-orbitron text-xs">SWAP WEAPONS</span>
+            </label>
+            {isTeamMode && (
+              <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={rematchOptions.swapSides}
+                  onChange={(e) => setRematchOptions((prev) => ({ ...prev, swapSides: e.target.checked }))}
+                  className="accent-blue-400"
+                />
+                <span className="font-orbitron text-xs">SWAP SIDES</span>
+              </label>
+            )}
+          </div>
+          {rematchNotice && <div className="text-xs sm:text-sm text-yellow-400 font-orbitron">{rematchNotice}</div>}
+          <div className="flex flex-col sm:flex-row gap-3 sm:gap-4">
+            <button
+              onClick={requestRematch}
+              className={`bg-blue-600/20 border-2 border-blue-400 text-blue-400 hover:bg-blue-600/30 ${buttonClass}`}
+            >
+              REMATCH?
+            </button>
+            {leaveButton}
+          </div>
+        </>
+      );
+    }
+    const expiresIn = formatClock(Math.max(0, msUntil(rematch.expiresAt, rematch.offset, clockNow)));
+    const swaps = [rematch.swapWeapons && "SWAP WEAPONS", rematch.swapSides && "SWAP SIDES"].filter(Boolean).join(" • ");
+    if (selfKey !== null && rematch.accepted.includes(selfKey)) {
+      return (
+        <>
+          <div className="text-xs sm:text-sm text-blue-400 font-orbitron">
+            AWAITING RESPONSE • {rematch.accepted.length}/{players.length} IN • {expiresIn}
+          </div>
+          {swaps && <div className="text-xs text-gray-500 font-orbitron">{swaps}</div>}
+          <div className="flex flex-col sm:flex-row gap-3 sm:gap-4">{leaveButton}</div>
+        </>
+      );
+    }
+    return (
+      <>
+        <div className="text-xs sm:text-sm text-blue-400 font-orbitron">
+          {labelFor(rematch.from)} WANTS A REMATCH • {expiresIn}
+        </div>
+        {swaps && <div className="text-xs text-gray-500 font-orbitron">{swaps}</div>}
+        <div className="flex flex-col sm:flex-row gap-3 sm:gap-4">
+          <button
+            onClick={() => answerRematch(true)}
+            className={`bg-green-600/20 border-2 border-green-400 text-green-400 hover:bg-green-600/30 ${buttonClass}`}
+          >
+            ACCEPT
+          </button>
+          <button
+            onClick={() => answerRematch(false)}
+            className={`bg-red-600/20 border-2 border-red-400 text-red-400 hover:bg-red-600/30 ${buttonClass}`}
+          >
+            DECLINE
+          </button>
+        </div>
+      </>
+    );
+  };
+
+  const reasonText = (reason: GameOverReason) =>
+    reason === "timeout"
+      ? "TIME EXPIRED • DECIDED ON HEALTH"
+      : reason === "forfeit"
+        ? `${forfeit ? `${labelFor(forfeit.operator)} ` : ""}FORFEIT • ${forfeit?.cause === "camera" ? "CAMERA LOST" : "SIGNAL LOST"}`
+        : "SUDDEN DEATH HEADSHOT";
+
   const createRoom = () => {
     if (socketRef.current) {
-      socketRef.current.emit("createRoom");
+      socketRef.current.emit("createRoom", roomSettings);
     }
   };
 
+  const handleGameModeChange = (mode: GameMode) => {
+    setRoomSettings((prev) => withGameMode(prev, mode));
+  };
+
+  const switchTeam = (team: TeamId) => {
+    socketRef.current?.emit("setTeam", { team });
+  };
+
+  // Host only - the server sends settingsChanged to the whole room once it's taken
+  const updateRoomSettings = (changes: Partial<RoomSettings>) => {
+    socketRef.current?.emit("updateSettings", { ...roomState.settings, ...changes });
+  };
+
   const joinRoom = () => {
     if (socketRef.current && joinRoomCode.trim()) {
       const roomCode = joinRoomCode.trim().toUpperCase();
@@ -479,6 +1314,16 @@ export default function Game() {
     }
   };
 
+  const spectateRoom = () => {
+    if (socketRef.current && joinRoomCode.trim()) {
+      setMatchLog([]);
+      playersRef.current = [];
+      socketRef.current.emit("spectateRoom", { roomCode: joinRoomCode.trim().toUpperCase() });
+    } else {
+      alert("Please enter a valid room code");
+    }
+  };
+
   const joinRandomGame = () => {
     if (socketRef.current) {
       socketRef.current.emit("joinGame");
@@ -494,25 +1339,33 @@ export default function Game() {
 
   const handleShoot = async () => {
     console.log("🔫 Shoot button pressed");
-    console.log("Current game status:", gameStatus);
+    console.log("Current phase:", phase.name);
     console.log("Socket connected:", socketRef.current?.connected);
-    console.log("NetRef exists:", !!netRef.current);
+    console.log("Pose detector loaded:", !!detectorRef.current);
     console.log("VideoRef exists:", !!videoRef.current);
-    console.log("Is reloading:", isReloading);
+    console.log("Is cooling down:", isCoolingDown, "Is reloading:", isReloading, "Ammo:", ammo);
     
-    if (!socketRef.current || !netRef.current || !videoRef.current || isReloading) {
-      console.log("❌ Missing required refs or reloading:", {
+    if (!socketRef.current || !detectorRef.current || !videoRef.current || isCoolingDown || isReloading) {
+      console.log("❌ Missing required refs, cooling down or reloading:", {
         socket: !!socketRef.current,
-        net: !!netRef.current,
+        detector: !!detectorRef.current,
         video: !!videoRef.current,
+        isCoolingDown,
         isReloading,
       });
       return;
     }
 
+    if (ammo <= 0) {
+      console.log("❌ Magazine empty, reloading");
+      startReload();
+      return;
+    }
+
     const now = Date.now();
+    const weapon = getWeapon(selectedGun);
     // Cooldowns per gun
-    const cooldownTime = selectedGun === "pistol" ? 200 : selectedGun === "sniper" ? 400 : 600; // Pistol: 200ms, Sniper: 400ms, Shotgun: 600ms
+    const cooldownTime = weapon.cooldownMs;
     console.log(`Cooldown check: now(${now}) - lastShot(${lastShot}) = ${now - lastShot}, cooldown: ${cooldownTime}`);
     
     if (now - lastShot < cooldownTime) {
@@ -522,183 +1375,158 @@ export default function Game() {
 
     console.log("✅ Proceeding with shot logic");
     // Play sound immediately on button press
-    if (selectedGun === "sniper" && sniperSoundRef.current) {
-      sniperSoundRef.current.currentTime = 0; // Reset to start
-      sniperSoundRef.current.play().catch((err: Error) => console.error("Sniper shot sound error:", err));
-    } else if (selectedGun === "pistol" && pistolSoundRef.current) {
-      pistolSoundRef.current.currentTime = 0; // Reset to start
-      pistolSoundRef.current.play().catch((err: Error) => console.error("Pistol shot sound error:", err));
-    } else if (selectedGun === "shotgun" && shotgunSoundRef.current) {
-      shotgunSoundRef.current.currentTime = 0; // Reset to start
-      shotgunSoundRef.current.play().catch((err: Error) => console.error("Shotgun shot sound error:", err));
+    const shotSound = weaponSoundRefs.current[selectedGun];
+    if (shotSound) {
+      shotSound.currentTime = 0; // Reset to start
+      shotSound.play().catch((err: Error) => console.error(`${weapon.name} shot sound error:`, err));
     }
 
-    setIsReloading(true);
+    setIsCoolingDown(true);
     setLastShot(now);
-    console.log("Cooldown passed, processing shot");
+    const remainingAmmo = ammo - 1;
+    setAmmo(remainingAmmo);
+    console.log(`Cooldown passed, processing shot - ${remainingAmmo}/${weapon.magazineSize} rounds left`);
+    if (remainingAmmo === 0) {
+      startReload();
+    }
 
     try {
-      const video = videoRef.current;
-      console.log("Video readyState:", video.readyState, "CurrentTime:", video.currentTime);
-      if (video.readyState < 4) {
-        console.log("Video not fully loaded, waiting...");
-        await new Promise((resolve) => setTimeout(resolve, 1000));
+      // Prefer the pose from the tracking loop - it's already on screen and costs nothing
+      const tracked = latestPosesRef.current;
+      let poses: PoseLike[];
+      let capturedAt: number;
+      if (tracked && now - tracked.timestamp <= POSE_MAX_AGE_MS) {
+        console.log(`Using tracked poses from ${now - tracked.timestamp}ms ago`);
+        poses = tracked.poses;
+        capturedAt = tracked.timestamp;
+      } else {
+        const video = videoRef.current;
+        console.log("No fresh tracked pose, running inference. Video readyState:", video.readyState, "CurrentTime:", video.currentTime);
+        if (video.readyState < 4) {
+          console.log("Video not fully loaded, waiting...");
+          await new Promise((resolve) => setTimeout(resolve, 1000));
+        }
+        poses = await detectorRef.current.estimatePoses(video);
+        capturedAt = Date.now();
       }
 
-      const poses = await netRef.current.estimateSinglePose(video, {
-        flipHorizontal: true,
-      });
-      console.log("Poses detected:", poses);
-
-      const headParts = ["nose", "leftEye", "rightEye", "leftEar", "rightEar"];
-      const torsoParts = ["leftShoulder", "rightShoulder", "leftHip", "rightHip"];
-      const lowerBodyParts = ["leftHip", "rightHip"];
-      const centerX = 320; // Center of 640x480 hit detection area
-      const centerY = 240;
-      const radius = selectedGun === "sniper" ? 75 : selectedGun === "pistol" ? 125 : 175;
-      const scaleX = 1; // No scaling, use raw PoseNet coords
-      const scaleY = 1;
-      const threshold = 0.5;
-
-      console.log("Hit detection center:", { centerX, centerY }, "Radius:", radius);
-
-      // Log all keypoints for debugging
-      console.log(
-        "All keypoints:",
-        poses.keypoints.map((k: posenet.Keypoint) => ({
-          part: k.part,
-          x: k.position.x,
-          y: k.position.y,
-          score: k.score,
-        }))
-      );
+      // Only the person closest to the crosshair can take the hit
+      const crosshair = crosshairForWeapon(weapon);
+      const lock = selectTarget(poses, weapon, crosshair);
+      console.log(`${poses.length} people in frame, locked:`, lock ? `#${personNumber(poses, lock.index)}` : "none");
 
-      // Calculate collective scores
-      const headKeypoints = headParts
-        .map((part) => poses.keypoints.find((k: posenet.Keypoint) => k.part === part))
-        .filter((k): k is posenet.Keypoint => k !== undefined && k.score > 0.3);
-      const headScore = headKeypoints.length
-        ? headKeypoints.reduce((sum: number, k: posenet.Keypoint) => sum + k.score, 0) / headKeypoints.length
-        : 0;
-      console.log("Head keypoints:", headKeypoints, "Collective head score:", headScore);
-
-      const torsoKeypoints = torsoParts
-        .map((part) => poses.keypoints.find((k: posenet.Keypoint) => k.part === part))
-        .filter((k): k is posenet.Keypoint => k !== undefined && k.score > 0.3);
-      const torsoScore = torsoKeypoints.length
-        ? torsoKeypoints.reduce((sum: number, k: posenet.Keypoint) => sum + k.score, 0) / torsoKeypoints.length
-        : 0;
-      console.log("Torso keypoints:", torsoKeypoints, "Collective torso score:", torsoScore);
-
-      const lowerBodyKeypoints = lowerBodyParts
-        .map((part) => poses.keypoints.find((k: posenet.Keypoint) => k.part === part))
-        .filter((k): k is posenet.Keypoint => k !== undefined && k.score > 0.3);
-      const lowerBodyScore = lowerBodyKeypoints.length
-        ? lowerBodyKeypoints.reduce((sum: number, k: posenet.Keypoint) => sum + k.score, 0) / lowerBodyKeypoints.length
-        : 0;
-      console.log("Lower body keypoints:", lowerBodyKeypoints, "Collective lower body score:", lowerBodyScore);
-
-      // Define vertical zones based on 480px height
-      const headZoneMax = 480 * 0.5; // 240px (50% of 480) to cover face
-      const torsoZoneMin = headZoneMax;
-      const torsoZoneMax = 480 * 0.85; // 408px (85% of 480) for torso
-      console.log("Zones:", { headZoneMax, torsoZoneMin, torsoZoneMax, videoHeight: 480 });
-
-      // Check for hits within crosshair radius and determine highest score
-      let hitDetected = false;
-      let damage = 0;
-      let bestScore = 0;
-      let hitType = "";
-
-      // Check all keypoints within radius
-      const allKeypoints = [...headKeypoints, ...torsoKeypoints, ...lowerBodyKeypoints];
-      for (const keypoint of allKeypoints) {
-        const adjustedX = keypoint.position.x * scaleX;
-        const adjustedY = keypoint.position.y * scaleY;
-        console.log(`${keypoint.part} position:`, { x: adjustedX, y: adjustedY, score: keypoint.score });
-        const distance = Math.sqrt(Math.pow(adjustedX - centerX, 2) + Math.pow(adjustedY - centerY, 2));
-        console.log(`${keypoint.part} distance from center:`, distance);
-
-        if (distance < radius) {
-          if (headParts.includes(keypoint.part) && adjustedY < headZoneMax && headScore > threshold) {
-            if (headScore > bestScore) {
-              bestScore = headScore;
-              damage = selectedGun === "sniper" ? 40 : 20;
-              hitType = "Headshot";
-              console.log(`Potential ${hitType} with score: ${headScore}`);
-            }
-          } else if (
-            torsoParts.includes(keypoint.part) &&
-            adjustedY >= torsoZoneMin &&
-            adjustedY < torsoZoneMax &&
-            torsoScore > threshold
-          ) {
-            if (torsoScore > bestScore) {
-              bestScore = torsoScore;
-              damage = 15;
-              hitType = "Torso shot";
-              console.log(`Potential ${hitType} with score: ${torsoScore}`);
-            }
-          } else if (
-            lowerBodyParts.includes(keypoint.part) &&
-            adjustedY >= torsoZoneMax &&
-            lowerBodyScore > threshold
-          ) {
-            if (lowerBodyScore > bestScore) {
-              bestScore = lowerBodyScore;
-              damage = 10;
-              hitType = "Lower body shot";
-              console.log(`Potential ${hitType} with score: ${lowerBodyScore}`);
-            }
-          }
-          hitDetected = true;
-        }
-      }
+      const { hit, zone, damage, confidence } = lock?.hit ?? MISS;
 
-      if (hitDetected) {
-        console.log(`${hitType} confirmed with best score: ${bestScore}, Damage set to: ${damage}`);
-        console.log("Final hit detected with damage:", damage);
-        
-        // Use current socket ID from socket ref, not state
-        const currentSocketId = socketRef.current.id;
-        console.log(`Emitting shoot with shooterId: ${currentSocketId}`);
-        socketRef.current.emit("shoot", { shooterId: currentSocketId, damage });
-        console.log("Shoot event emitted");
-        // Play gun sound again on confirmed hit
-       
+      if (hit) {
+        console.log(`${zone} hit confirmed with confidence: ${confidence}, expected damage: ${damage}`);
       } else {
         console.log("No head, torso, or lower body detected within crosshair radius with sufficient collective score");
       }
+
+      // Every shot goes to the server with what we saw - it recomputes the hit
+      // and decides the damage, so misses count towards its cooldown too
+      const record: ShotRecord = {
+        weapon: selectedGun,
+        capturedAt,
+        firedAt: now,
+        crosshair,
+        keypoints: lock?.pose.keypoints ?? [],
+        poseScore: lock?.confidence ?? 0,
+        clientZone: zone,
+        targetId: shotTargetId ?? undefined,
+      };
+      socketRef.current.emit("shoot", record);
+      if (selfKey) {
+        setMatchLog((prev) => logEvent(prev, { type: "shot", shooter: selfKey, weapon: selectedGun }));
+      }
+      console.log("Shot record emitted:", { weapon: record.weapon, clientZone: zone, keypoints: record.keypoints.length });
     } catch (err: unknown) {
-      console.error("PoseNet error:", err instanceof Error ? err.message : err);
+      console.error("Pose detection error:", err instanceof Error ? err.message : err);
     } finally {
-      // Reset reloading after cooldown
-      setTimeout(() => setIsReloading(false), cooldownTime);
+      // Reset cooldown flag after cooldown
+      setTimeout(() => setIsCoolingDown(false), cooldownTime);
+    }
+  };
+
+  // Refill the magazine after the weapon's reload time and let the server know
+  const startReload = () => {
+    const weapon = getWeapon(selectedGun);
+    if (reloadTimerRef.current) {
+      return;
     }
+    console.log(`Reloading ${weapon.name} (${weapon.reloadMs}ms)`);
+    setIsReloading(true);
+    socketRef.current?.emit("reload", { weapon: selectedGun });
+    reloadTimerRef.current = setTimeout(() => {
+      reloadTimerRef.current = null;
+      setAmmo(weapon.magazineSize);
+      setIsReloading(false);
+      console.log(`${weapon.name} reloaded`);
+    }, weapon.reloadMs);
   };
 
-  const handleReset = () => {
+  const handleReload = () => {
+    if (isReloading || ammo >= getWeapon(selectedGun).magazineSize) {
+      return;
+    }
+    startReload();
+  };
+
+  // Drop any reload in progress and start with a full magazine
+  const refillMagazine = (gun: WeaponId) => {
+    if (reloadTimerRef.current) {
+      clearTimeout(reloadTimerRef.current);
+      reloadTimerRef.current = null;
+    }
+    setIsReloading(false);
+    setAmmo(getWeapon(gun).magazineSize);
+  };
+
+  // Everyone agreed to a rematch, or the match was abandoned - clear it and
+  // head back to the briefing so players need to ready up again
+  const resetMatch = () => {
     console.log("Resetting game...");
-    // Reset local state first
     setWinner(null);
-    setCountdown(null);
-    // Clear winner role info
-    setRoomState(prev => ({ ...prev, winnerIsHost: undefined }));
-    
-    // Emit reset to backend
-    socketRef.current?.emit("resetGame");
-    
-    // Set game status to waiting (not ready) so players need to ready up again
-    setGameStatus("waiting");
+    setPlacements([]);
+    setWinningTeam(null);
+    setRoundResults([]);
+    setGameOverReason(null);
+    setForfeit(null);
+    setRematch(null);
+    setRematchNotice(null);
+    setMatchClock(null);
+    setMatchLog([]);
+    setTargetOperatorId(null);
+    sendPhase({ type: "reset" });
+  };
+
+  const requestRematch = () => {
+    setRematchNotice(null);
+    socketRef.current?.emit("requestRematch", { ...rematchOptions, weapon: selectedGun });
+  };
+
+  const answerRematch = (accept: boolean) => {
+    socketRef.current?.emit("answerRematch", { accept, weapon: selectedGun });
   };
 
   const leaveRoom = () => {
     // Clear all game state
     setWinner(null);
-    setCountdown(null);
-    setGameStatus("lobby");
+    setPlacements([]);
+    setWinningTeam(null);
+    setRoundResults([]);
+    setGameOverReason(null);
+    setForfeit(null);
+    setRematch(null);
+    setRematchNotice(null);
+    setMatchClock(null);
+    setHitMarker(null);
+    setDamageFlash(null);
+    setTargetOperatorId(null);
+    sendPhase({ type: "leaveRoom" });
     setPlayers([]);
-    setRoomState({ isInRoom: false, roomCode: null, isHost: false, winnerIsHost: undefined });
+    setMatchLog([]);
+    clearRoomSession();
     
     if (socketRef.current) {
       // Just emit leave room event - don't disconnect/reconnect
@@ -726,8 +1554,7 @@ export default function Game() {
       return;
     }
     
-    // Find the current player based on host status, not socket ID
-    const player = players.find((p) => p.isHost === roomState.isHost);
+    const player = players.find(isSelf);
     console.log("Found current player:", player);
     console.log("Current socket ID:", socketRef.current.id);
     
@@ -748,7 +1575,7 @@ export default function Game() {
           
           // Add a timeout to check if the event was received
           setTimeout(() => {
-            const updatedPlayer = players.find((p) => p.isHost === roomState.isHost);
+            const updatedPlayer = players.find(isSelf);
             if (updatedPlayer && updatedPlayer.ready === newReadyState) {
               console.log("✅ setReady event processed successfully");
             } else {
@@ -766,13 +1593,31 @@ export default function Game() {
       }
     } else {
       console.log("Current player not found in players array");
-      console.log("Available players:", players.map(p => ({ id: p.id.substring(0, 8), isHost: p.isHost })));
-      console.log("Looking for host status:", roomState.isHost);
+      console.log("Available players:", players.map(p => ({ id: operatorKey(p).substring(0, 8), isHost: p.isHost })));
+      console.log("Looking for operator:", selfKey);
     }
   };
 
-  const handleGunChange = (gun: "sniper" | "pistol" | "shotgun") => {
+  // Ask for the camera again after it failed, without reloading the page and
+  // losing our place in the match
+  const retryCamera = () => {
+    setCameraRetrying(true);
+    setCameraError(null);
+    if (!selectedDeviceId) {
+      requestCameraPermission();
+    }
+    setCameraAttempt((attempt) => attempt + 1);
+  };
+
+  const handlePoseBackendChange = (backend: PoseBackendId) => {
+    setPoseBackend(backend);
+    localStorage.setItem(POSE_BACKEND_STORAGE_KEY, backend);
+    console.log("Selected pose backend:", backend);
+  };
+
+  const handleGunChange = (gun: WeaponId) => {
     setSelectedGun(gun);
+    refillMagazine(gun);
     console.log("Selected gun:", gun);
   };
 
@@ -831,6 +1676,18 @@ export default function Game() {
           0%, 100% { transform: scale(1); }
           50% { transform: scale(1.05); }
         }
+        @keyframes hitMarker {
+          from { transform: translate(-50%, -50%) scale(1.6); opacity: 1; }
+          to { transform: translate(-50%, -50%) scale(1); opacity: 0; }
+        }
+        @keyframes floatUp {
+          from { transform: translateY(0); opacity: 1; }
+          to { transform: translateY(-40px); opacity: 0; }
+        }
+        @keyframes damageFlash {
+          from { opacity: 1; }
+          to { opacity: 0; }
+        }
         
         .animate-fadeIn { animation: fadeIn 0.8s ease-out forwards; }
         .animate-slideUp { animation: slideUp 0.6s ease-out forwards; }
@@ -842,6 +1699,9 @@ export default function Game() {
         .animate-countdownPulse { animation: countdownPulse 1s infinite; }
         .animate-glitch { animation: digitalGlitch 0.3s ease-in-out; }
         .animate-breathing { animation: breathing 3s ease-in-out infinite; }
+        .animate-hitMarker { animation: hitMarker 0.7s ease-out forwards; }
+        .animate-floatUp { animation: floatUp 0.7s ease-out forwards; }
+        .animate-damageFlash { animation: damageFlash 0.6s ease-out forwards; }
         
         .font-orbitron { font-family: 'Orbitron', monospace; }
         
@@ -982,7 +1842,181 @@ export default function Game() {
         <div className="absolute w-full h-0.5 bg-gradient-to-r from-transparent via-green-400 to-transparent opacity-30 animate-scanline"></div>
       </div>
 
-      {gameStatus === "lobby" ? (
+      {/* Protocol Error Banner */}
+      {protocolError && (
+        <div className="fixed top-2 left-1/2 transform -translate-x-1/2 z-50 w-[min(95vw,640px)] tactical-overlay-red rounded-lg p-3 sm:p-4 animate-slideDown">
+          <div className="flex justify-between items-start gap-3">
+            <div>
+              <div className="font-orbitron text-xs sm:text-sm font-bold text-red-400 mb-1">
+                ⚠ PROTOCOL ERROR
+              </div>
+              <p className="text-xs text-gray-300 break-words">{protocolError}</p>
+            </div>
+            <button
+              onClick={() => setProtocolError(null)}
+              className="bg-red-600/20 border border-red-400 text-red-400 font-orbitron text-xs px-2 py-1 rounded transition-all hover:bg-red-600/30"
+            >
+              DISMISS
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Service Record - lifetime stats from the match history in IndexedDB */}
+      {showServiceRecord && (
+        <div className="fixed inset-0 z-40 overflow-y-auto bg-black/90 p-4">
+          <div className="tactical-overlay rounded-lg p-4 sm:p-6 max-w-3xl mx-auto hud-corner relative animate-fadeIn">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="font-orbitron text-xl sm:text-2xl font-bold text-green-400">SERVICE RECORD</h2>
+              <button
+                onClick={() => setShowServiceRecord(false)}
+                className="bg-red-600/20 border border-red-400 text-red-400 font-orbitron text-xs px-3 py-1 rounded transition-all hover:bg-red-600/30"
+              >
+                CLOSE
+              </button>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-4 font-orbitron text-center">
+              {[
+                ["MATCHES", String(career.matches)],
+                ["WINS", String(career.wins)],
+                ["WIN RATE", `${Math.round(career.winRate * 100)}%`],
+                ["ACCURACY", `${Math.round(career.accuracy * 100)}%`],
+              ].map(([label, value]) => (
+                <div key={label} className="tactical-overlay rounded p-2">
+                  <div className="text-lg sm:text-2xl font-black text-green-400">{value}</div>
+                  <div className="text-xs text-gray-400">{label}</div>
+                </div>
+              ))}
+            </div>
+            {WEAPON_IDS.some((id) => career.weapons[id]) && (
+              <table className="w-full mb-4 font-orbitron text-xs text-left">
+                <thead className="text-gray-400">
+                  <tr>
+                    <th className="py-1">WEAPON</th>
+                    <th>MATCHES</th>
+                    <th>WINS</th>
+                    <th>ACCURACY</th>
+                    <th>DAMAGE</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {WEAPON_IDS.filter((id) => career.weapons[id]).map((id) => {
+                    const stats = career.weapons[id]!;
+                    return (
+                      <tr key={id} className={WEAPONS[id].textClass}>
+                        <td className="py-1">
+                          {WEAPONS[id].icon} {WEAPONS[id].label}
+                        </td>
+                        <td>{stats.matches}</td>
+                        <td>{stats.wins}</td>
+                        <td>{stats.shots > 0 ? Math.round((stats.hits / stats.shots) * 100) : 0}%</td>
+                        <td>{stats.damage}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+            <h3 className="font-orbitron text-sm font-bold text-green-400 mb-2">RECENT MATCHES</h3>
+            {matchHistory.length === 0 ? (
+              <p className="text-xs text-gray-500 mb-4">No completed matches on this device yet.</p>
+            ) : (
+              <ul className="space-y-1 mb-4 max-h-72 overflow-y-auto font-orbitron text-xs">
+                {matchHistory.map((record) => (
+                  <li key={record.id} className="tactical-overlay rounded px-3 py-2 flex flex-wrap justify-between gap-x-3 gap-y-1">
+                    <span className={record.won ? "text-green-400 font-bold" : "text-red-400 font-bold"}>
+                      {record.won ? "WIN" : "LOSS"}
+                    </span>
+                    <span className="text-gray-300">
+                      {GAME_MODES[record.mode].label} VS {record.opponents.join(", ") || "—"}
+                    </span>
+                    <span className={WEAPONS[record.weapon].textClass}>{WEAPONS[record.weapon].label}</span>
+                    <span className="text-gray-300">
+                      {Math.round(record.accuracy * 100)}% • H{record.zones.head}/T{record.zones.torso}/L{record.zones.lowerBody}
+                    </span>
+                    <span className="text-gray-400">{formatClock(record.durationMs)}</span>
+                    <span className="text-gray-500">{new Date(record.playedAt).toLocaleString()}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex flex-col sm:flex-row gap-2">
+              <button
+                onClick={exportServiceRecord}
+                disabled={matchHistory.length === 0}
+                className="flex-1 bg-blue-600/20 border border-blue-400 text-blue-400 font-orbitron text-xs px-3 py-2 rounded transition-all hover:bg-blue-600/30 disabled:opacity-50"
+              >
+                EXPORT JSON
+              </button>
+              <label className="flex-1 text-center bg-yellow-600/20 border border-yellow-400 text-yellow-400 font-orbitron text-xs px-3 py-2 rounded transition-all hover:bg-yellow-600/30 cursor-pointer">
+                IMPORT JSON
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) {
+                      importServiceRecord(file);
+                    }
+                  }}
+                />
+              </label>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Reconnect Overlay - seat is held by the server while we get it back */}
+      {roomState.isInRoom && (phase.name === "reconnecting" || connectionStatus !== "connected") && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/80 p-4">
+          <div className="tactical-overlay-yellow rounded-lg p-6 sm:p-8 text-center animate-pulse">
+            <div className="font-orbitron text-lg sm:text-2xl font-bold text-yellow-400 mb-2">
+              RECONNECTING TO MATCH
+            </div>
+            <p className="text-xs sm:text-sm text-gray-300 font-orbitron">
+              {connectionStatus === "connected" ? "RESTORING SEAT IN" : "SIGNAL LOST •"} ROOM {roomState.roomCode}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Pause Overlay - play is held while an operator is gone, until they're back or forfeit */}
+      {phase.name === "paused" && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/80 p-4">
+          <div className="tactical-overlay-red rounded-lg p-6 sm:p-8 max-w-md w-full text-center hud-corner relative animate-fadeIn">
+            <div className="text-red-400 text-4xl sm:text-5xl mb-3 sm:mb-4 animate-pulse">⚠</div>
+            <div className="font-orbitron text-lg sm:text-2xl font-black text-red-400 neon-text mb-2">OPERATOR SIGNAL LOST</div>
+            <p className="text-xs sm:text-sm text-gray-300 font-orbitron mb-4">
+              {sideLabel(phase.operator)} • {phase.cause === "camera" ? "CAMERA OFFLINE" : "CONNECTION DROPPED"}
+            </p>
+            {phase.resumesAt !== null ? (
+              <div className="font-orbitron text-yellow-400">
+                <div className="text-xs sm:text-sm">OPERATOR BACK • RESUMING IN</div>
+                <div className="text-4xl sm:text-5xl font-black neon-text animate-countdownPulse">{countdown ?? 0}</div>
+              </div>
+            ) : (
+              <div className="font-orbitron text-gray-300">
+                <div className="text-xs sm:text-sm">MATCH PAUSED • FORFEIT IN</div>
+                <div className="text-3xl sm:text-4xl font-black text-red-400">
+                  {formatClock(Math.max(0, msUntil(phase.forfeitAt, phase.offset, clockNow)))}
+                </div>
+              </div>
+            )}
+            {phase.operator === selfKey && phase.cause === "camera" && phase.resumesAt === null && (
+              <button
+                onClick={retryCamera}
+                className="mt-4 sm:mt-6 bg-red-600/20 border-2 border-red-400 text-red-400 font-orbitron font-bold px-6 sm:px-8 py-2 sm:py-3 text-sm sm:text-base rounded-lg transition-all transform hover:scale-105 hover:bg-red-600/30"
+              >
+                RETRY SYSTEM
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {screen.name === "lobby" ? (
         <div className="flex items-center justify-center min-h-screen p-2 sm:p-4 lg:p-8">
           <div className="w-full max-w-2xl animate-fadeIn">
             {/* Main Title */}
@@ -1025,9 +2059,72 @@ export default function Game() {
                   <span className="w-3 h-3 bg-green-400 rounded-full mr-3 animate-pulse"></span>
                   CREATE PRIVATE ROOM
                 </h2>
-                <p className="text-gray-400 text-sm sm:text-base mb-6">
+                <p className="text-gray-400 text-sm sm:text-base mb-4">
                   Create a private game room and share the code with your friend
                 </p>
+                <div className="grid grid-cols-2 gap-3 mb-2">
+                  <select
+                    aria-label="Game mode"
+                    value={roomSettings.mode}
+                    onChange={(e) => handleGameModeChange(e.target.value as GameMode)}
+                    className="w-full bg-transparent border-2 border-green-400/30 rounded-lg px-4 py-3 text-green-400 font-orbitron text-sm focus:outline-none focus:border-green-400"
+                  >
+                    {GAME_MODE_IDS.map((mode) => (
+                      <option key={mode} value={mode} className="bg-black">
+                        {GAME_MODES[mode].label}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    aria-label="Room size"
+                    value={roomSettings.maxPlayers}
+                    onChange={(e) => setRoomSettings((prev) => ({ ...prev, maxPlayers: Number(e.target.value) }))}
+                    disabled={roomSizesFor(roomSettings.mode).length === 1}
+                    className="w-full bg-transparent border-2 border-green-400/30 rounded-lg px-4 py-3 text-green-400 font-orbitron text-sm focus:outline-none focus:border-green-400 disabled:opacity-50"
+                  >
+                    {roomSizesFor(roomSettings.mode).map((size) => (
+                      <option key={size} value={size} className="bg-black">
+                        {size} PLAYERS
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <select
+                  aria-label="Match length"
+                  value={roomSettings.rounds ?? 1}
+                  onChange={(e) => setRoomSettings((prev) => ({ ...prev, rounds: Number(e.target.value) }))}
+                  className="w-full mb-2 bg-transparent border-2 border-green-400/30 rounded-lg px-4 py-3 text-green-400 font-orbitron text-sm focus:outline-none focus:border-green-400"
+                >
+                  {ROUND_OPTIONS.map((rounds) => (
+                    <option key={rounds} value={rounds} className="bg-black">
+                      {rounds === 1 ? "SINGLE ROUND" : `BEST OF ${rounds}`}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  aria-label="Time limit"
+                  value={roomSettings.timeLimitMinutes ?? 0}
+                  onChange={(e) => setRoomSettings((prev) => ({ ...prev, timeLimitMinutes: Number(e.target.value) }))}
+                  className="w-full mb-2 bg-transparent border-2 border-green-400/30 rounded-lg px-4 py-3 text-green-400 font-orbitron text-sm focus:outline-none focus:border-green-400"
+                >
+                  {TIME_LIMIT_OPTIONS.map((minutes) => (
+                    <option key={minutes} value={minutes} className="bg-black">
+                      {minutes === 0 ? "NO TIME LIMIT" : `${minutes} MIN ROUNDS`}
+                    </option>
+                  ))}
+                </select>
+                {GAME_MODES[roomSettings.mode].teams && (
+                  <label className="flex items-center gap-2 text-sm text-gray-400 mb-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!!roomSettings.friendlyFire}
+                      onChange={(e) => setRoomSettings((prev) => ({ ...prev, friendlyFire: e.target.checked }))}
+                      className="accent-green-400"
+                    />
+                    <span className="font-orbitron text-xs">FRIENDLY FIRE</span>
+                  </label>
+                )}
+                <p className="text-xs text-gray-500 mb-6">{GAME_MODES[roomSettings.mode].description}</p>
                 <button
                   onClick={createRoom}
                   disabled={connectionStatus !== "connected"}
@@ -1070,6 +2167,17 @@ export default function Game() {
                   >
                     ◌ JOIN ROOM
                   </button>
+                  <button
+                    onClick={spectateRoom}
+                    disabled={!joinRoomCode.trim() || connectionStatus !== "connected"}
+                    className={`w-full font-orbitron font-bold py-3 px-6 text-sm rounded-lg transition-all ${
+                      joinRoomCode.trim() && connectionStatus === "connected"
+                        ? "border-2 border-blue-400/50 text-blue-400 hover:bg-blue-600/20"
+                        : "border-2 border-gray-600 text-gray-600 cursor-not-allowed"
+                    }`}
+                  >
+                    👁 SPECTATE
+                  </button>
                 </div>
               </div>
 
@@ -1094,10 +2202,178 @@ export default function Game() {
                   ⚡ QUICK MATCH
                 </button>
               </div>
+
+              {/* Service Record */}
+              <div className="tactical-overlay rounded-lg p-6 sm:p-8 animate-slideUp hud-corner relative" style={{animationDelay: '0.5s'}}>
+                <h2 className="font-orbitron text-xl sm:text-2xl font-bold text-green-400 mb-4 flex items-center">
+                  <span className="w-3 h-3 bg-green-400 rounded-full mr-3"></span>
+                  SERVICE RECORD
+                </h2>
+                <p className="text-gray-400 text-sm sm:text-base mb-6">
+                  Match history, win rate and weapon stats from this device
+                </p>
+                <button
+                  onClick={openServiceRecord}
+                  className="w-full font-orbitron font-bold py-4 px-6 text-lg rounded-lg transition-all transform hover:scale-105 bg-green-600/20 border-2 border-green-400 text-green-400 hover:bg-green-600/30 neon-text"
+                >
+                  ▤ VIEW RECORD
+                </button>
+              </div>
+
+              {/* Settings */}
+              <div className="tactical-overlay rounded-lg p-6 sm:p-8 animate-slideUp hud-corner relative" style={{animationDelay: '0.6s'}}>
+                <h2 className="font-orbitron text-xl sm:text-2xl font-bold text-green-400 mb-4 flex items-center">
+                  <span className="w-3 h-3 bg-green-400 rounded-full mr-3"></span>
+                  SYSTEM SETTINGS
+                </h2>
+                <label className="block text-gray-400 text-sm sm:text-base mb-2" htmlFor="pose-backend">
+                  Target tracking model
+                </label>
+                <select
+                  id="pose-backend"
+                  value={poseBackend}
+                  onChange={(e) => handlePoseBackendChange(e.target.value as PoseBackendId)}
+                  className="w-full bg-transparent border-2 border-green-400/30 rounded-lg px-4 py-3 text-green-400 font-orbitron text-sm focus:outline-none focus:border-green-400"
+                >
+                  {POSE_BACKEND_IDS.map((id) => (
+                    <option key={id} value={id} className="bg-black">
+                      {POSE_BACKENDS[id].label}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-2">{POSE_BACKENDS[poseBackend].description}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      ) : roomState.isSpectator ? (
+        <div className="flex items-center justify-center min-h-screen p-2 sm:p-4 lg:p-8">
+          <div className="w-full max-w-4xl animate-fadeIn">
+            {/* Spectator header */}
+            <div className="tactical-overlay-blue rounded-lg p-4 sm:p-6 mb-6 animate-slideDown hud-corner relative">
+              <div className="flex justify-between items-center">
+                <div>
+                  <h3 className="font-orbitron text-lg font-bold text-blue-400">
+                    👁 SPECTATING: {roomState.roomCode}
+                  </h3>
+                  <p className="text-xs text-gray-400">
+                    {GAME_MODES[roomState.settings.mode].label} • {players.length}/{roomState.settings.maxPlayers} OPERATORS
+                    {(roomState.settings.rounds ?? 1) > 1 && ` • BEST OF ${roomState.settings.rounds}`}
+                    {(roomState.settings.timeLimitMinutes ?? 0) > 0 && ` • ${roomState.settings.timeLimitMinutes} MIN`}
+                  </p>
+                </div>
+                <button
+                  onClick={leaveRoom}
+                  className="bg-red-600/20 border border-red-400 text-red-400 font-orbitron text-xs px-3 py-1 rounded transition-all hover:bg-red-600/30"
+                >
+                  LEAVE
+                </button>
+              </div>
+            </div>
+
+            {/* Match status - countdown, live clock or the result */}
+            <div className="text-center mb-6">
+              {countdown !== null ? (
+                <div className="tactical-overlay-red rounded-lg p-6 animate-countdownPulse">
+                  <div className="font-orbitron text-4xl sm:text-5xl font-black text-red-400 neon-text mb-2">{countdown}</div>
+                  <div className="text-red-400 font-orbitron text-sm sm:text-base tracking-widest">MISSION COMMENCING</div>
+                </div>
+              ) : screen.name === "matchOver" ? (
+                <div className="tactical-overlay-yellow rounded-lg p-6">
+                  <div className="font-orbitron text-2xl sm:text-3xl font-black text-yellow-400 neon-text">
+                    {winner ? `${sideLabel(winningTeam ?? winner)} WINS` : "MATCH OVER"}
+                  </div>
+                  {gameOverReason && gameOverReason !== "elimination" && (
+                    <div className="text-xs sm:text-sm text-gray-300 font-orbitron mt-2">
+                      {reasonText(gameOverReason)}
+                    </div>
+                  )}
+                  {placements.length > 2 && (
+                    <ol className="mt-4 space-y-1 text-left font-orbitron text-xs sm:text-sm text-gray-400">
+                      {placements.map(({ id, place }) => (
+                        <li key={id} className="flex justify-between px-3">
+                          <span>#{place}</span>
+                          <span>{labelFor(id)}</span>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                  <div className="mt-4">{renderDebrief()}</div>
+                </div>
+              ) : inCombat ? (
+                <div className={`rounded-lg p-4 font-orbitron font-bold ${
+                  suddenDeath ? "tactical-overlay-red text-red-400 animate-pulse" : "tactical-overlay text-green-400"
+                }`}>
+                  {suddenDeath
+                    ? "SUDDEN DEATH • HEADSHOTS ONLY"
+                    : `● LIVE${matchClock ? ` • ⏱ ${formatClock(remainingMs(matchClock, clockNow))}` : ""}`}
+                </div>
+              ) : (
+                <div className="tactical-overlay rounded-lg p-4 text-green-400 font-orbitron text-sm sm:text-base">
+                  {lastRound
+                    ? `ROUND ${lastRound.round} TO ${sideLabel(lastRound.winningTeam ?? lastRound.winner)} • NEXT ROUND SOON`
+                    : `AWAITING OPERATORS • ${players.filter((p) => p.ready).length}/${players.length} READY`}
+                </div>
+              )}
+              {roundScores.length > 0 && (
+                <div className="flex flex-wrap justify-center gap-x-4 mt-2 text-xs font-orbitron text-gray-300">
+                  {roundScores.map(([side, wins]) => (
+                    <span key={side}>
+                      {sideLabel(side)}: <span className="text-yellow-400 font-bold">{wins}</span>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+              {/* Every operator's health */}
+              <div className="tactical-overlay rounded-lg p-4 sm:p-6 hud-corner relative space-y-3">
+                <div className="scanline"></div>
+                <h2 className="font-orbitron text-sm sm:text-base font-bold text-green-400">OPERATORS</h2>
+                {orderedPlayers.map((player, index) => (
+                  <div key={operatorKey(player)} className={player.connected === false || player.health <= 0 ? "opacity-50" : ""}>
+                    <div className="flex justify-between font-orbitron text-xs sm:text-sm mb-1">
+                      <span className={player.team ? TEAMS[player.team].textClass : "text-gray-300"}>
+                        {operatorLabel(index)}
+                        {player.team && ` • ${TEAMS[player.team].label}`}
+                        {player.connected === false && " • OFFLINE"}
+                        {player.health <= 0 && " • KIA"}
+                      </span>
+                      <span className="text-green-400 ammo-counter">{player.health}%</span>
+                    </div>
+                    <div className="health-bar bg-gray-800 rounded-full h-2 overflow-hidden">
+                      <div
+                        className={`h-full transition-all duration-500 ${
+                          player.health > 70 ? "bg-green-400" : player.health > 30 ? "bg-yellow-400" : "bg-red-400"
+                        }`}
+                        style={{ width: `${player.health}%` }}
+                      ></div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Live event feed */}
+              <div className="tactical-overlay-blue rounded-lg p-4 sm:p-6 hud-corner relative">
+                <h2 className="font-orbitron text-sm sm:text-base font-bold text-blue-400 mb-3">EVENT FEED</h2>
+                {matchLog.length === 0 ? (
+                  <p className="text-xs text-gray-500">Waiting for action...</p>
+                ) : (
+                  <ul className="space-y-1 font-orbitron text-xs">
+                    {matchLog.slice(-SPECTATOR_FEED_LENGTH).reverse().map((entry) => (
+                      <li key={entry.id} className={`flex justify-between gap-2 animate-fadeIn ${logTone(entry)}`}>
+                        <span>{logText(entry)}</span>
+                        <span className="text-gray-500">{new Date(entry.at).toLocaleTimeString()}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
             </div>
           </div>
         </div>
-      ) : gameStatus === "waiting" ? (
+      ) : briefing ? (
         <div className="flex items-center justify-center min-h-screen p-2 sm:p-4 lg:p-8">
           <div className="w-full max-w-4xl animate-fadeIn">
             {/* Main Title */}
@@ -1123,8 +2399,20 @@ export default function Game() {
                       ROOM: {roomState.roomCode}
                     </h3>
                     <p className="text-xs text-gray-400">
-                      {roomState.isHost ? "HOST" : "GUEST"} • PRIVATE ROOM
+                      {roomState.isHost ? "HOST" : "GUEST"} • {GAME_MODES[roomState.settings.mode].label} • {players.length}/{roomState.settings.maxPlayers} OPERATORS
+                      {(roomState.settings.rounds ?? 1) > 1 && ` • BEST OF ${roomState.settings.rounds}`}
+                      {(roomState.settings.timeLimitMinutes ?? 0) > 0 && ` • ${roomState.settings.timeLimitMinutes} MIN`}
                     </p>
+                    {isTeamMode && (
+                      <p className="text-xs font-orbitron">
+                        {TEAM_IDS.map((team) => (
+                          <span key={team} className={`${TEAMS[team].textClass} mr-3`}>
+                            {TEAMS[team].label} {teamMembers(players, team).length}/{teamSize(roomState.settings)}
+                          </span>
+                        ))}
+                        <span className="text-gray-400">FRIENDLY FIRE {roomState.settings.friendlyFire ? "ON" : "OFF"}</span>
+                      </p>
+                    )}
                   </div>
                   <div className="flex space-x-2">
                     {roomState.isHost && (
@@ -1143,6 +2431,89 @@ export default function Game() {
                     </button>
                   </div>
                 </div>
+                {canEditSettings && (
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                    <select
+                      aria-label="Game mode"
+                      value={roomState.settings.mode}
+                      onChange={(e) => updateRoomSettings(withGameMode(roomState.settings, e.target.value as GameMode))}
+                      className="bg-transparent border border-green-400/30 rounded px-2 py-1 text-green-400 font-orbitron text-xs focus:outline-none focus:border-green-400"
+                    >
+                      {GAME_MODE_IDS.map((mode) => (
+                        <option key={mode} value={mode} className="bg-black">
+                          {GAME_MODES[mode].label}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      aria-label="Room size"
+                      value={roomState.settings.maxPlayers}
+                      onChange={(e) => updateRoomSettings({ maxPlayers: Number(e.target.value) })}
+                      disabled={roomSizesFor(roomState.settings.mode).length === 1}
+                      className="bg-transparent border border-green-400/30 rounded px-2 py-1 text-green-400 font-orbitron text-xs focus:outline-none focus:border-green-400 disabled:opacity-50"
+                    >
+                      {roomSizesFor(roomState.settings.mode).map((size) => (
+                        <option key={size} value={size} disabled={size < players.length} className="bg-black">
+                          {size} PLAYERS
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      aria-label="Match length"
+                      value={roomState.settings.rounds ?? 1}
+                      onChange={(e) => updateRoomSettings({ rounds: Number(e.target.value) })}
+                      className="bg-transparent border border-green-400/30 rounded px-2 py-1 text-green-400 font-orbitron text-xs focus:outline-none focus:border-green-400"
+                    >
+                      {ROUND_OPTIONS.map((rounds) => (
+                        <option key={rounds} value={rounds} className="bg-black">
+                          {rounds === 1 ? "SINGLE ROUND" : `BEST OF ${rounds}`}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      aria-label="Time limit"
+                      value={roomState.settings.timeLimitMinutes ?? 0}
+                      onChange={(e) => updateRoomSettings({ timeLimitMinutes: Number(e.target.value) })}
+                      className="bg-transparent border border-green-400/30 rounded px-2 py-1 text-green-400 font-orbitron text-xs focus:outline-none focus:border-green-400"
+                    >
+                      {TIME_LIMIT_OPTIONS.map((minutes) => (
+                        <option key={minutes} value={minutes} className="bg-black">
+                          {minutes === 0 ? "NO TIME LIMIT" : `${minutes} MIN ROUNDS`}
+                        </option>
+                      ))}
+                    </select>
+                    {isTeamMode && (
+                      <label className="col-span-2 sm:col-span-4 flex items-center gap-2 text-gray-400 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={!!roomState.settings.friendlyFire}
+                          onChange={(e) => updateRoomSettings({ friendlyFire: e.target.checked })}
+                          className="accent-green-400"
+                        />
+                        <span className="font-orbitron text-xs">FRIENDLY FIRE</span>
+                      </label>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Round Result - intermission between rounds of a best-of-N match */}
+            {lastRound && (
+              <div className="tactical-overlay-yellow rounded-lg p-4 sm:p-6 mb-6 animate-slideDown hud-corner relative">
+                <div className="font-orbitron text-lg font-bold text-yellow-400">
+                  ROUND {lastRound.round} OF {roomState.settings.rounds ?? 1} • {sideLabel(lastRound.winningTeam ?? lastRound.winner)} TAKES IT
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs sm:text-sm font-orbitron text-gray-300">
+                  {roundScores.map(([side, wins]) => (
+                    <span key={side}>
+                      {sideLabel(side)}: <span className="text-yellow-400 font-bold">{wins}</span>
+                    </span>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-400 mt-2">
+                  Swap weapons now - the next round counts down once every operator is ready.
+                </p>
               </div>
             )}
 
@@ -1156,35 +2527,31 @@ export default function Game() {
               
               {/* Operator Status */}
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6 mb-6 sm:mb-8">
-                {players
-                  .sort((a, b) => {
-                    // Host always comes first (OPERATOR-01)
-                    if (a.isHost && !b.isHost) return -1;
-                    if (!a.isHost && b.isHost) return 1;
-                    return 0;
-                  })
+                {orderedPlayers
                   .map((player, index) => {
-                    // Use room state to determine if this is the current player
-                    // If we're in a room and this player's isHost status matches our room state, it's us
-                    const isCurrentPlayer = roomState.isInRoom && 
-                      ((roomState.isHost && player.isHost) || (!roomState.isHost && !player.isHost));
+                    const isCurrentPlayer = isSelf(player);
                     
                     return (
                   <div
-                    key={player.id}
+                    key={operatorKey(player)}
                     className={`${player.ready ? 'tactical-overlay' : 'tactical-overlay-red'} rounded-lg p-4 sm:p-6 animate-slideLeft relative hud-corner`}
                     style={{ animationDelay: `${index * 0.2}s` }}
                   >
                     <div className="flex justify-between items-start mb-3 sm:mb-4">
                       <div>
                         <div className="font-orbitron text-sm sm:text-base lg:text-lg font-bold text-green-400">
-                          {player.isHost ? "OPERATOR-01" : "OPERATOR-02"}
+                          {operatorLabel(index)}
                           {isCurrentPlayer && (
                             <span className="text-xs text-blue-400 ml-2">(YOU)</span>
                           )}
                         </div>
+                        {isTeamMode && player.team && (
+                          <div className={`text-xs font-orbitron font-bold ${TEAMS[player.team].textClass}`}>
+                            TEAM {TEAMS[player.team].label}
+                          </div>
+                        )}
                         <div className="text-xs text-gray-400 font-orbitron">
-                          ID: {player.id.slice(0, 8).toUpperCase()}
+                          ID: {operatorKey(player).slice(0, 8).toUpperCase()}
                           {player.isHost && <span className=" text-yellow-400 ml-1">HOST</span>}
                         </div>
                       </div>
@@ -1194,8 +2561,8 @@ export default function Game() {
                     <div className="space-y-2">
                       <div className="flex justify-between text-xs sm:text-sm">
                         <span className="text-gray-400">STATUS:</span>
-                        <span className={`font-orbitron font-bold ${player.ready ? 'text-green-400' : 'text-red-400'}`}>
-                          {player.ready ? 'READY' : 'STANDBY'}
+                        <span className={`font-orbitron font-bold ${player.connected === false ? 'text-gray-400' : player.ready ? 'text-green-400' : 'text-red-400'}`}>
+                          {player.connected === false ? 'OFFLINE' : player.ready ? 'READY' : 'STANDBY'}
                         </span>
                       </div>
                       <div className="flex justify-between text-xs sm:text-sm">
@@ -1204,6 +2571,24 @@ export default function Game() {
                       </div>
                     </div>
                     
+                    {isCurrentPlayer && isTeamMode && !player.ready && (
+                      <div className="grid grid-cols-2 gap-2 mt-3 sm:mt-4">
+                        {TEAM_IDS.map((team) => (
+                          <button
+                            key={team}
+                            type="button"
+                            onClick={() => switchTeam(team)}
+                            disabled={player.team === team || teamMembers(players, team).length >= teamSize(roomState.settings)}
+                            className={`py-1 sm:py-2 rounded font-orbitron font-bold text-xs transition-all border disabled:opacity-40 disabled:cursor-not-allowed ${
+                              TEAMS[team].textClass
+                            } ${player.team === team ? "bg-white/10 border-current" : "border-current/40 hover:bg-white/5"}`}
+                          >
+                            {player.team === team ? `◆ ${TEAMS[team].label}` : `JOIN ${TEAMS[team].label}`}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+
                     {isCurrentPlayer && (
                       <button
                         onClick={() => {
@@ -1226,10 +2611,10 @@ export default function Game() {
                     )}
                   </div>
                 )})}
-                {players.length < 2 && (
-                  <div className="tactical-overlay-yellow rounded-lg p-4 sm:p-6 opacity-60 animate-pulse hud-corner relative">
+                {Array.from({ length: Math.max(0, roomState.settings.maxPlayers - players.length) }, (_, slot) => (
+                  <div key={`open-${slot}`} className="tactical-overlay-yellow rounded-lg p-4 sm:p-6 opacity-60 animate-pulse hud-corner relative">
                     <div className="font-orbitron text-sm sm:text-base lg:text-lg font-bold text-yellow-400 mb-2">
-                      OPERATOR-02
+                      {operatorLabel(players.length + slot)}
                     </div>
                     <div className="text-xs text-gray-400 mb-3 sm:mb-4">
                       AWAITING CONNECTION...
@@ -1239,40 +2624,38 @@ export default function Game() {
                       <span className="text-yellow-400 font-orbitron text-xs sm:text-sm">CONNECTING</span>
                     </div>
                   </div>
-                )}
+                ))}
               </div>
 
               {/* Weapon Selection */}
-              {socketId && players.some((p) => p.id === socketId) && (
+              {players.some(isSelf) && (
                 <div className="mb-6 sm:mb-8">
                   <h3 className="font-orbitron text-base sm:text-lg lg:text-xl font-bold text-green-400 mb-3 sm:mb-4 flex items-center">
                     <span className="w-2 h-2 sm:w-3 sm:h-3 bg-green-400 rounded-full mr-2 sm:mr-3"></span>
                     WEAPON SELECTION
                   </h3>
                   <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4">
-                    {[
-                      { type: "sniper", name: "SNIPER RIFLE", damage: "HIGH", range: "LONG", color: "green", symbol: "◊" },
-                      { type: "pistol", name: "TACTICAL PISTOL", damage: "MEDIUM", range: "CLOSE", color: "red", symbol: "●" },
-                      { type: "shotgun", name: "COMBAT SHOTGUN", damage: "EXTREME", range: "CLOSE", color: "yellow", symbol: "◈" }
-                    ].map(({ type, name, damage, range, color, symbol }) => (
+                    {WEAPON_IDS.map((type) => {
+                      const { name, damageRating, rangeRating, textClass, overlayClass, icon } = WEAPONS[type];
+                      return (
                       <button
                         key={type}
-                        onClick={() => handleGunChange(type as "sniper" | "pistol" | "shotgun")}
-                        className={`tactical-overlay${selectedGun === type ? '' : '-' + color} rounded-lg p-3 sm:p-4 font-orbitron transition-all duration-300 transform hover:scale-105 ${
+                        onClick={() => handleGunChange(type)}
+                        className={`${selectedGun === type ? 'tactical-overlay' : overlayClass} rounded-lg p-3 sm:p-4 font-orbitron transition-all duration-300 transform hover:scale-105 ${
                           selectedGun === type ? 'ring-2 ring-green-400' : ''
                         } hud-corner relative`}
                       >
-                        <div className={`text-xl sm:text-2xl mb-1 sm:mb-2 text-${color}-400`}>{symbol}</div>
-                        <div className={`text-xs sm:text-sm font-bold text-${color}-400 mb-1`}>{name}</div>
+                        <div className={`text-xl sm:text-2xl mb-1 sm:mb-2 ${textClass}`}>{icon}</div>
+                        <div className={`text-xs sm:text-sm font-bold ${textClass} mb-1`}>{name}</div>
                         <div className="text-xs text-gray-400 space-y-1">
-                          <div>DMG: {damage}</div>
-                          <div>RNG: {range}</div>
+                          <div>DMG: {damageRating}</div>
+                          <div>RNG: {rangeRating}</div>
                         </div>
                         {selectedGun === type && (
                           <div className="absolute top-1 right-1 text-green-400 text-xs">✓</div>
                         )}
                       </button>
-                    ))}
+                    )})}
                   </div>
                 </div>
               )}
@@ -1289,13 +2672,14 @@ export default function Game() {
                     MISSION COMMENCING
                   </div>
                 </div>
-              ) : players.length < 2 ? (
+              ) : players.length < minPlayers ? (
                 <div className="tactical-overlay-yellow rounded-lg p-4 sm:p-6 animate-pulse">
                   <div className="text-yellow-400 font-orbitron text-sm sm:text-base lg:text-lg font-bold mb-2">
                     SEARCHING FOR OPERATORS...
                   </div>
                   <div className="text-gray-400 text-xs sm:text-sm">
-                    [{players.length}/2] OPERATORS CONNECTED
+                    [{players.length}/{roomState.settings.maxPlayers}] OPERATORS CONNECTED
+                    {minPlayers < roomState.settings.maxPlayers && ` • ${minPlayers} NEEDED TO DEPLOY`}
                   </div>
                 </div>
               ) : (
@@ -1311,7 +2695,7 @@ export default function Game() {
             </div>
           </div>
         </div>
-      ) : gameStatus === "ready" ? (
+      ) : inCombat ? (
         <div className="relative w-full h-screen">
           {cameraError ? (
             <div className="absolute inset-0 flex items-center justify-center p-4">
@@ -1322,7 +2706,7 @@ export default function Game() {
                 </h2>
                 <p className="text-xs sm:text-sm mb-4 sm:mb-6 text-gray-300">{cameraError}</p>
                 <button
-                  onClick={() => window.location.reload()}
+                  onClick={retryCamera}
                   className="bg-red-600/20 border-2 border-red-400 text-red-400 font-orbitron font-bold px-6 sm:px-8 py-2 sm:py-3 text-sm sm:text-base rounded-lg transition-all transform hover:scale-105 hover:bg-red-600/30"
                 >
                    RETRY SYSTEM
@@ -1341,8 +2725,61 @@ export default function Game() {
               {/* AR Canvas */}
                 <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-[min(100vw,640px)] h-[min(100vh,480px)] sm:w-[640px] sm:h-[480px] border-2 border-blue-400">
                   <canvas ref={canvasRef} className="w-full h-full" />
+                  <canvas
+                    ref={overlayCanvasRef}
+                    width={640}
+                    height={480}
+                    className="absolute inset-0 w-full h-full pointer-events-none"
+                  />
+                  {targetStatus.people > 0 && (
+                    <div className={`absolute top-1 left-1/2 transform -translate-x-1/2 rounded px-2 py-0.5 font-orbitron text-xs font-bold whitespace-nowrap ${
+                      targetStatus.zone ? "tactical-overlay-red text-red-400 animate-pulse" : "tactical-overlay text-green-400"
+                    }`}>
+                      {targetStatus.locked !== null
+                        ? `LOCK: P${targetStatus.locked}/${targetStatus.people}`
+                        : `${targetStatus.people} IN FRAME`}
+                      {targetStatus.zone && ` • ${HIT_ZONE_LABELS[targetStatus.zone]}`}
+                      {hasRoster && ` • ${shotTargetId ? labelFor(shotTargetId) : "NO TARGET"}`}
+                    </div>
+                  )}
+                  {/* Hit marker and damage number over the crosshair */}
+                  {hitMarker && (
+                    <div key={hitMarker.id} className="absolute top-1/2 left-1/2 pointer-events-none">
+                      <div
+                        className={`absolute font-black leading-none animate-hitMarker ${
+                          hitMarker.zone === "head" ? "text-red-500 text-6xl" : "text-white text-4xl"
+                        }`}
+                      >
+                        ✕
+                      </div>
+                      <div
+                        className={`absolute left-6 -top-10 font-orbitron font-black whitespace-nowrap animate-floatUp ${
+                          hitMarker.zone === "head" ? "text-red-400 text-2xl neon-text" : "text-yellow-300 text-lg"
+                        }`}
+                      >
+                        -{hitMarker.damage}
+                        {hitMarker.zone === "head" && <div className="text-xs tracking-widest">HEADSHOT</div>}
+                        {hitMarker.eliminated && <div className="text-xs tracking-widest text-red-400">ELIMINATED</div>}
+                      </div>
+                    </div>
+                  )}
                 </div>
 
+              {/* Damage taken - red flash from the side we were hit */}
+              {damageFlash && (
+                <div
+                  key={damageFlash.id}
+                  className="absolute inset-0 pointer-events-none z-10 animate-damageFlash"
+                  style={{ background: DAMAGE_FLASH_GRADIENTS[damageFlash.zone] }}
+                >
+                  {damageFlash.zone === "head" && (
+                    <div className="absolute top-1/4 left-1/2 -translate-x-1/2 font-orbitron font-black text-red-400 text-xl sm:text-3xl neon-text animate-glitch">
+                      HEADSHOT -{damageFlash.damage}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Tactical HUD - Health bars always shown on top */}
               <div className="absolute inset-0 pointer-events-none">
                 {/* Top HUD - Player health bars always visible */}
@@ -1350,12 +2787,8 @@ export default function Game() {
                   {/* Left Panel - YOUR HEALTH */}
                   <div className="tactical-overlay rounded p-1 md:p-2 lg:p-4 min-w-16 md:min-w-20 lg:min-w-48 max-w-xs hud-corner relative animate-slideLeft text-xs md:text-sm">
                     <div className="scanline"></div>
-                    {players.filter(player => {
-                      // Show current player's own health (same role)
-                      return roomState.isInRoom && 
-                        ((roomState.isHost && player.isHost) || (!roomState.isHost && !player.isHost));
-                    }).map((player) => (
-                      <div key={player.id}>
+                    {players.filter(isSelf).map((player) => (
+                      <div key={operatorKey(player)}>
                         <div className="flex justify-between items-center mb-1 md:mb-2">
                           <div className="font-orbitron font-bold text-green-400 text-xs md:text-sm">
                             YOU
@@ -1385,18 +2818,68 @@ export default function Game() {
                     ))}
                   </div>
 
-                  {/* Right Panel - ENEMY HEALTH */}
-                  <div className="tactical-overlay-red rounded p-1 md:p-2 lg:p-4 min-w-16 md:min-w-20 lg:min-w-48 max-w-xs hud-corner relative animate-slideRight text-xs md:text-sm">
+                  {/* Match clock - timed rooms only */}
+                  {matchClock && (
+                    <div
+                      className={`rounded px-2 py-1 md:px-3 md:py-2 font-orbitron font-bold text-center text-xs md:text-sm lg:text-lg ${
+                        matchClock.suddenDeath
+                          ? "tactical-overlay-red text-red-400 animate-pulse"
+                          : remainingMs(matchClock, clockNow) <= 30000
+                            ? "tactical-overlay-yellow text-yellow-400"
+                            : "tactical-overlay text-green-400"
+                      }`}
+                    >
+                      {matchClock.suddenDeath ? (
+                        <>
+                          SUDDEN DEATH
+                          <div className="text-xs font-normal">HEADSHOTS ONLY</div>
+                        </>
+                      ) : (
+                        `⏱ ${formatClock(remainingMs(matchClock, clockNow))}`
+                      )}
+                    </div>
+                  )}
+
+                  {/* Right Panel - ENEMY HEALTH, a scrollable roster outside of duels */}
+                  <div className={`tactical-overlay-red rounded p-1 md:p-2 lg:p-4 min-w-16 md:min-w-20 lg:min-w-48 max-w-xs hud-corner relative animate-slideRight text-xs md:text-sm ${
+                    hasRoster ? "max-h-40 md:max-h-64 overflow-y-auto pointer-events-auto space-y-2" : ""
+                  }`}>
                     <div className="scanline"></div>
-                    {players.filter(player => {
-                      // Show enemy player's health (opposite role)
-                      return roomState.isInRoom && 
-                        ((roomState.isHost && !player.isHost) || (!roomState.isHost && player.isHost));
-                    }).map((player) => (
-                      <div key={player.id}>
+                    {isTeamMode && (
+                      <div className="flex justify-between gap-2 font-orbitron text-xs font-bold">
+                        {TEAM_IDS.map((team) => (
+                          <span key={team} className={TEAMS[team].textClass}>
+                            {TEAMS[team].label} {teamHealth(team)}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {hasRoster && (
+                      <div className="font-orbitron text-xs text-gray-400">
+                        {targetable.length > 1 ? "TAP TO SELECT TARGET" : `${standingOpponents.length} HOSTILE LEFT`}
+                      </div>
+                    )}
+                    {opponents.map((player) => (
+                      <div
+                        key={operatorKey(player)}
+                        onClick={targetable.includes(player) ? () => setTargetOperatorId(operatorKey(player)) : undefined}
+                        className={`${hasRoster ? "rounded p-1 border" : ""} ${targetable.includes(player) ? "cursor-pointer" : ""} ${
+                          hasRoster && operatorKey(player) === shotTargetId ? "border-red-400 bg-red-600/20" : "border-transparent"
+                        } ${player.health <= 0 ? "opacity-40" : ""}`}
+                      >
                         <div className="flex justify-between items-center mb-1 md:mb-2">
-                          <div className="font-orbitron font-bold text-red-400 text-xs md:text-sm">
-                            ENEMY
+                          <div className={`font-orbitron font-bold text-xs md:text-sm ${
+                            isTeamMode && player.team ? TEAMS[player.team].textClass : "text-red-400"
+                          }`}>
+                            {hasRoster ? labelFor(operatorKey(player)) : "ENEMY"}
+                            {isTeammate(player) && <span className="text-xs ml-1">ALLY</span>}
+                            {player.health <= 0 ? (
+                              <span className="text-gray-400 text-xs ml-1">KIA</span>
+                            ) : player.connected === false ? (
+                              <span className="text-gray-400 text-xs ml-1 animate-pulse">OFFLINE</span>
+                            ) : player.reloading && (
+                              <span className="text-yellow-400 text-xs ml-1 animate-pulse">RLD</span>
+                            )}
                           </div>
                           <div className="w-2 h-2 md:w-3 md:h-3 bg-red-400 rounded-full animate-pulse"></div>
                         </div>
@@ -1419,6 +2902,20 @@ export default function Game() {
                   </div>
                 </div>
 
+                {/* Kill feed - latest hits and eliminations */}
+                {killFeed(matchLog).length > 0 && (
+                  <ul className="absolute top-20 md:top-28 lg:top-40 left-1 md:left-2 lg:left-4 space-y-0.5 font-orbitron text-xs max-w-[60vw]">
+                    {killFeed(matchLog).map((entry) => (
+                      <li
+                        key={entry.id}
+                        className={`tactical-overlay rounded px-2 py-0.5 whitespace-nowrap truncate animate-slideLeft ${logTone(entry)}`}
+                      >
+                        {logText(entry)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
                 {/* Bottom HUD - Controls */}
                 <div className="absolute bottom-1 md:bottom-2 lg:bottom-4 left-1 md:left-2 lg:left-4 right-1 md:right-2 lg:right-4 flex flex-col sm:flex-row justify-between items-center gap-1 md:gap-2 lg:gap-4 animate-slideUp">
                   {/* Camera Controls - Hidden on small screens for space */}
@@ -1444,84 +2941,135 @@ export default function Game() {
                     <button
                       onClick={handleShoot}
                       className={`px-4 md:px-8 lg:px-12 py-2 md:py-4 lg:py-6 rounded-lg font-orbitron font-black text-sm md:text-base lg:text-xl transition-all duration-300 transform ${
-                      isReloading
+                      isCoolingDown || isReloading || ammo === 0 || selfEliminated
                         ? "bg-gray-700/50 cursor-not-allowed opacity-50 text-gray-400"
                         : "bg-red-600/20 border-2 border-red-400 text-red-400 hover:bg-red-600/40 hover:scale-110 animate-breathing neon-text"
                       }`}
-                      disabled={isReloading}
+                      disabled={isCoolingDown || isReloading || ammo === 0 || selfEliminated}
+                    >
+                      {selfEliminated ? "ELIMINATED" : isReloading ? "RELOADING" : "FIRE"}
+                    </button>
+                    <button
+                      onClick={handleReload}
+                      className={`w-full mt-1 md:mt-2 py-1 rounded font-orbitron font-bold text-xs transition-all ${
+                      isReloading || ammo >= getWeapon(selectedGun).magazineSize
+                        ? "bg-gray-700/50 cursor-not-allowed opacity-50 text-gray-400"
+                        : "bg-yellow-600/20 border border-yellow-400 text-yellow-400 hover:bg-yellow-600/40"
+                      }`}
+                      disabled={isReloading || ammo >= getWeapon(selectedGun).magazineSize}
                     >
-                      {isReloading ? "RELOAD" : "FIRE"}
+                      RELOAD
                     </button>
                     </div>
 
                     {/* Weapon Display - Compact on mobile */}
-                    <div className={`tactical-overlay${
-                    selectedGun === "sniper" ? "" : 
-                    selectedGun === "pistol" ? "-red" : "-yellow"
-                    } rounded p-1 md:p-2 lg:p-4 min-w-16 md:min-w-20 lg:min-w-32 text-center hud-corner relative animate-slideLeft w-full sm:w-auto order-1 sm:order-1`}>
+                    <div className={`${getWeapon(selectedGun).overlayClass} rounded p-1 md:p-2 lg:p-4 min-w-16 md:min-w-20 lg:min-w-32 text-center hud-corner relative animate-slideLeft w-full sm:w-auto order-1 sm:order-1`}>
                     <div className="scanline"></div>
-                    <div className={`text-base md:text-xl lg:text-2xl mb-1 ${
-                      selectedGun === "sniper" ? "text-green-400" :
-                      selectedGun === "pistol" ? "text-red-400" : "text-yellow-400"
-                    }`}>
-                      {selectedGun === "sniper" ? "◊" : selectedGun === "pistol" ? "●" : "◈"}
+                    <div className={`text-base md:text-xl lg:text-2xl mb-1 ${getWeapon(selectedGun).textClass}`}>
+                      {getWeapon(selectedGun).icon}
                     </div>
-                    <div className={`font-orbitron text-xs font-bold mb-1 ${
-                      selectedGun === "sniper" ? "text-green-400" :
-                      selectedGun === "pistol" ? "text-red-400" : "text-yellow-400"
-                    }`}>
-                      {selectedGun === "sniper" ? "SNP" : selectedGun === "pistol" ? "PST" : "SHG"}
+                    <div className={`font-orbitron text-xs font-bold mb-1 ${getWeapon(selectedGun).textClass}`}>
+                      {getWeapon(selectedGun).label}
+                    </div>
+                    <div className={`font-orbitron font-bold text-xs md:text-sm ammo-counter ${ammo === 0 ? "text-red-400 animate-pulse" : "text-white"}`}>
+                      {ammo}/{getWeapon(selectedGun).magazineSize}
                     </div>
                     <div className="text-xs text-gray-400 font-orbitron ammo-counter">
-                      {isReloading ? "RLD" : "RDY"}
+                      {isReloading ? "RLD" : isCoolingDown ? "CLD" : "RDY"}
                     </div>
                     </div>
                 </div>
               </div>
 
-              <audio ref={sniperSoundRef} src="/sniper.mp3" preload="auto" />
-              <audio ref={pistolSoundRef} src="/pistol.mp3" preload="auto" />
-              <audio ref={shotgunSoundRef} src="/shotgun.mp3" preload="auto" />
-              <audio ref={hitSoundRef} src="/hit.mp3" preload="auto" />
+              {WEAPON_IDS.map((type) => (
+                <audio
+                  key={type}
+                  ref={(el) => {
+                    weaponSoundRefs.current[type] = el;
+                  }}
+                  src={WEAPONS[type].sound}
+                  preload="auto"
+                />
+              ))}
+              <audio ref={hitSoundRef} src="/pistolshot.mp3" preload="auto" />
             </>
           )}
         </div>
       ) : (
         <div className="flex items-center justify-center min-h-screen p-4">
-          <div className="tactical-overlay rounded-lg p-6 sm:p-8 lg:p-12 text-center animate-fadeIn hud-corner relative max-w-sm sm:max-w-md">
+          <div className="tactical-overlay rounded-lg p-6 sm:p-8 lg:p-12 text-center animate-fadeIn hud-corner relative max-w-sm sm:max-w-2xl">
             <div className="scanline"></div>
             <div className="text-6xl sm:text-7xl lg:text-8xl mb-6 sm:mb-8 animate-pulse">
-              {/* Use role-based victory detection instead of socket ID */}
-              {roomState.winnerIsHost === roomState.isHost ? "🏆" : "💀"}
+              {isVictory ? "🏆" : "💀"}
             </div>
             <h1 className="font-orbitron text-2xl sm:text-3xl lg:text-4xl font-black mb-3 sm:mb-4 neon-text">
-              {roomState.winnerIsHost === roomState.isHost ? (
+              {isVictory ? (
                 <span className="text-green-400">MISSION COMPLETE</span>
               ) : (
                 <span className="text-red-400">KIA</span>
               )}
             </h1>
             <p className="text-sm sm:text-base lg:text-lg mb-6 sm:mb-8 text-gray-400 font-orbitron">
-              {roomState.winnerIsHost === roomState.isHost ? "TARGET ELIMINATED" : "OPERATOR DOWN"}
+              {winningTeam
+                ? `TEAM ${TEAMS[winningTeam].label} WINS`
+                : isVictory ? "TARGET ELIMINATED" : "OPERATOR DOWN"}
             </p>
+            {gameOverReason && gameOverReason !== "elimination" && (
+              <p className="-mt-4 sm:-mt-6 mb-6 sm:mb-8 text-xs sm:text-sm text-yellow-400 font-orbitron">
+                {reasonText(gameOverReason)}
+              </p>
+            )}
+            {roundResults.length > 1 && (
+              <ol className="mb-6 sm:mb-8 space-y-1 text-left font-orbitron text-xs sm:text-sm">
+                {roundResults.map((result) => (
+                  <li key={result.round} className="flex justify-between rounded px-3 py-1 text-gray-400">
+                    <span>ROUND {result.round}</span>
+                    <span className={(result.winningTeam ? result.winningTeam === myTeam : result.winner === selfKey) ? "text-green-400" : "text-red-400"}>
+                      {sideLabel(result.winningTeam ?? result.winner)}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+            {renderDebrief()}
+            {matchLog.length > 0 && (
+              <details className="mb-6 sm:mb-8 text-left">
+                <summary className="font-orbitron text-xs sm:text-sm text-gray-400 cursor-pointer">
+                  MATCH LOG • {matchLog.length} EVENTS
+                </summary>
+                <ol className="mt-2 max-h-48 overflow-y-auto space-y-0.5 font-orbitron text-xs">
+                  {matchLog.map((entry) => (
+                    <li key={entry.id} className={`flex gap-3 ${logTone(entry)}`}>
+                      <span className="text-gray-500">{formatClock(entry.at - matchLog[0].at)}</span>
+                      <span>{logText(entry)}</span>
+                    </li>
+                  ))}
+                </ol>
+              </details>
+            )}
+            {placements.length > 2 && (
+              <ol className="mb-6 sm:mb-8 space-y-1 text-left font-orbitron text-xs sm:text-sm">
+                {placements.map(({ id, place }) => (
+                  <li
+                    key={id}
+                    className={`flex justify-between rounded px-3 py-1 ${
+                      id === selfKey ? "bg-green-600/20 text-green-400" : "text-gray-400"
+                    }`}
+                  >
+                    <span>#{place}</span>
+                    <span>
+                      {labelFor(id)}
+                      {id === selfKey && " (YOU)"}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
             <div className="space-y-3 sm:space-y-4">
               <div className="text-xs sm:text-sm text-gray-400 font-orbitron">
                 DEBRIEFING COMPLETE
               </div>
-              <div className="flex flex-col sm:flex-row gap-3 sm:gap-4">
-                <button
-                  onClick={handleReset}
-                  className="bg-blue-600/20 border-2 border-blue-400 text-blue-400 font-orbitron font-bold py-3 sm:py-4 px-6 sm:px-8 text-sm sm:text-base rounded-lg transition-all transform hover:scale-105 hover:bg-blue-600/30 neon-text flex-1"
-                >
-                  NEW MISSION
-                </button>
-                <button
-                  onClick={leaveRoom}
-                  className="bg-red-600/20 border-2 border-red-400 text-red-400 font-orbitron font-bold py-3 sm:py-4 px-6 sm:px-8 text-sm sm:text-base rounded-lg transition-all transform hover:scale-105 hover:bg-red-600/30 neon-text flex-1"
-                >
-                  LEAVE ROOM
-                </button>
-              </div>
+              {renderRematch()}
             </div>
           </div>
         </div>
@@ -0,0 +1,267 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { RoomSettings } from "../game-modes";
+import {
+  createGamePhaseStore,
+  GamePhase,
+  GamePhaseName,
+  LEFT_ROOM,
+  LOBBY,
+  PhaseEvent,
+  PhaseTransitionError,
+  RoomState,
+  screenPhase,
+  transition,
+} from "../game-phase";
+
+const ROOM: RoomState = { ...LEFT_ROOM, isInRoom: true, roomCode: "ABC234", operatorId: "op-1" };
+// What a rejoin hands back - same room, fresh details
+const REJOINED: RoomState = { ...ROOM, isHost: true };
+
+const TEAM_SETTINGS: RoomSettings = { mode: "team", maxPlayers: 4, friendlyFire: true, rounds: 3, timeLimitMinutes: 0 };
+
+const inRoom: GamePhase = { name: "inRoom", room: ROOM };
+const countdown: GamePhase = { name: "countdown", room: ROOM, startsAt: 5000, offset: 20 };
+const combat: GamePhase = { name: "combat", room: ROOM, suddenDeath: false };
+const roundOver: GamePhase = { name: "roundOver", room: ROOM };
+const matchOver: GamePhase = { name: "matchOver", room: ROOM };
+const paused: GamePhase = {
+  name: "paused",
+  room: ROOM,
+  resume: combat,
+  forfeitAt: 25000,
+  resumesAt: null,
+  offset: 20,
+  operator: "op-2",
+  cause: "disconnected",
+};
+const reconnecting: GamePhase = { name: "reconnecting", room: ROOM, resume: combat };
+
+const PHASES: Record<GamePhaseName, GamePhase> = {
+  lobby: LOBBY,
+  inRoom,
+  countdown,
+  combat,
+  roundOver,
+  matchOver,
+  paused,
+  reconnecting,
+};
+
+const EVENTS: Record<PhaseEvent["type"], PhaseEvent> = {
+  enterRoom: { type: "enterRoom", room: REJOINED },
+  leaveRoom: { type: "leaveRoom" },
+  countdownStarted: { type: "countdownStarted", startsAt: 9000, offset: 35 },
+  countdownCancelled: { type: "countdownCancelled" },
+  combatStarted: { type: "combatStarted" },
+  suddenDeath: { type: "suddenDeath" },
+  roundOver: { type: "roundOver" },
+  matchOver: { type: "matchOver" },
+  reset: { type: "reset" },
+  hostChanged: { type: "hostChanged", isHost: true },
+  settingsChanged: { type: "settingsChanged", settings: TEAM_SETTINGS },
+  reconnecting: { type: "reconnecting" },
+  pause: { type: "pause", forfeitAt: 30000, offset: 35, operator: "op-2", cause: "camera" },
+  resume: { type: "resume" },
+};
+
+// Every phase each event is allowed from; anything else has to throw
+const ALLOWED: Record<PhaseEvent["type"], GamePhaseName[]> = {
+  enterRoom: ["lobby", "reconnecting"],
+  leaveRoom: ["lobby", "inRoom", "countdown", "combat", "roundOver", "matchOver", "paused", "reconnecting"],
+  countdownStarted: ["inRoom", "roundOver", "countdown", "paused"],
+  countdownCancelled: ["countdown"],
+  combatStarted: ["countdown"],
+  suddenDeath: ["combat"],
+  roundOver: ["inRoom", "countdown", "combat", "paused"],
+  matchOver: ["inRoom", "countdown", "combat", "roundOver", "paused"],
+  reset: ["inRoom", "countdown", "combat", "paused", "roundOver", "matchOver"],
+  hostChanged: ["inRoom", "countdown", "combat", "roundOver", "matchOver", "paused", "reconnecting"],
+  settingsChanged: ["inRoom"],
+  reconnecting: ["lobby", "inRoom", "countdown", "combat", "roundOver", "matchOver", "paused", "reconnecting"],
+  pause: ["inRoom", "countdown", "combat", "paused"],
+  resume: ["paused"],
+};
+
+describe("transition", () => {
+  describe("enterRoom", () => {
+    it("goes from the lobby to the briefing", () => {
+      assert.deepEqual(transition(LOBBY, EVENTS.enterRoom), { name: "inRoom", room: REJOINED });
+    });
+
+    it("puts a reconnect back where it left off, with the rejoined room", () => {
+      assert.deepEqual(transition(reconnecting, EVENTS.enterRoom), { ...combat, room: REJOINED });
+      assert.deepEqual(transition({ name: "reconnecting", room: ROOM, resume: matchOver }, EVENTS.enterRoom), {
+        name: "matchOver",
+        room: REJOINED,
+      });
+    });
+
+    it("drops a countdown that was running when we dropped out", () => {
+      assert.deepEqual(transition({ name: "reconnecting", room: ROOM, resume: countdown }, EVENTS.enterRoom), {
+        name: "inRoom",
+        room: REJOINED,
+      });
+    });
+
+    it("treats a reload from the lobby as a fresh entry", () => {
+      const reload: GamePhase = { name: "reconnecting", room: LEFT_ROOM, resume: { name: "lobby", room: LEFT_ROOM } };
+      assert.deepEqual(transition(reload, EVENTS.enterRoom), { name: "inRoom", room: REJOINED });
+    });
+  });
+
+  it("leaveRoom always ends up in the lobby", () => {
+    for (const phase of Object.values(PHASES)) {
+      assert.equal(transition(phase, EVENTS.leaveRoom), LOBBY, phase.name);
+    }
+  });
+
+  describe("countdownStarted", () => {
+    it("starts a countdown from the briefing, between rounds, or over a running one", () => {
+      for (const phase of [inRoom, roundOver, countdown]) {
+        assert.deepEqual(
+          transition(phase, EVENTS.countdownStarted),
+          { name: "countdown", room: ROOM, startsAt: 9000, offset: 35 },
+          phase.name
+        );
+      }
+    });
+
+    it("schedules the resume while paused", () => {
+      assert.deepEqual(transition(paused, EVENTS.countdownStarted), { ...paused, resumesAt: 9000, offset: 35 });
+    });
+  });
+
+  it("countdownCancelled goes back to the briefing", () => {
+    assert.deepEqual(transition(countdown, EVENTS.countdownCancelled), inRoom);
+  });
+
+  it("combatStarted ends the countdown", () => {
+    assert.deepEqual(transition(countdown, EVENTS.combatStarted), combat);
+  });
+
+  it("suddenDeath marks combat as sudden death", () => {
+    assert.deepEqual(transition(combat, EVENTS.suddenDeath), { ...combat, suddenDeath: true });
+  });
+
+  it("roundOver and matchOver can arrive from any phase of a round", () => {
+    for (const name of ALLOWED.roundOver) {
+      assert.deepEqual(transition(PHASES[name], EVENTS.roundOver), roundOver, name);
+    }
+    for (const name of ALLOWED.matchOver) {
+      assert.deepEqual(transition(PHASES[name], EVENTS.matchOver), matchOver, name);
+    }
+  });
+
+  it("reset goes back to the briefing, and leaves the briefing alone", () => {
+    assert.equal(transition(inRoom, EVENTS.reset), inRoom);
+    for (const name of ALLOWED.reset) {
+      assert.deepEqual(transition(PHASES[name], EVENTS.reset), inRoom, name);
+    }
+  });
+
+  it("hostChanged updates the room and keeps the phase", () => {
+    for (const name of ALLOWED.hostChanged) {
+      const next = transition(PHASES[name], EVENTS.hostChanged);
+      assert.deepEqual(next, { ...PHASES[name], room: { ...ROOM, isHost: true } }, name);
+    }
+  });
+
+  it("settingsChanged swaps the room's settings in the briefing", () => {
+    assert.deepEqual(transition(inRoom, EVENTS.settingsChanged), { name: "inRoom", room: { ...ROOM, settings: TEAM_SETTINGS } });
+  });
+
+  describe("reconnecting", () => {
+    it("wraps the phase it interrupted", () => {
+      for (const name of ALLOWED.reconnecting.filter((name) => name !== "reconnecting")) {
+        const phase = PHASES[name];
+        assert.deepEqual(transition(phase, EVENTS.reconnecting), { name: "reconnecting", room: phase.room, resume: phase }, name);
+      }
+    });
+
+    it("doesn't nest", () => {
+      assert.equal(transition(reconnecting, EVENTS.reconnecting), reconnecting);
+    });
+  });
+
+  describe("pause", () => {
+    const pause = { forfeitAt: 30000, offset: 35, operator: "op-2", cause: "camera" as const, resumesAt: null };
+
+    it("holds a countdown or combat", () => {
+      for (const phase of [countdown, combat]) {
+        assert.deepEqual(transition(phase, EVENTS.pause), { name: "paused", room: ROOM, resume: phase, ...pause }, phase.name);
+      }
+    });
+
+    it("resumes into combat when it's caught up on from the briefing", () => {
+      assert.deepEqual(transition(inRoom, EVENTS.pause), { name: "paused", room: ROOM, resume: combat, ...pause });
+    });
+
+    it("stays held for whoever is still gone, calling off a resume countdown", () => {
+      const resuming: GamePhase = { ...paused, resumesAt: 9000 };
+      assert.deepEqual(transition(resuming, EVENTS.pause), { ...paused, ...pause });
+    });
+  });
+
+  it("resume picks up what was paused, in the current room", () => {
+    const moved: GamePhase = { ...paused, room: REJOINED };
+    assert.deepEqual(transition(moved, EVENTS.resume), { ...combat, room: REJOINED });
+  });
+
+  it("throws PhaseTransitionError for everything else", () => {
+    for (const [type, allowed] of Object.entries(ALLOWED) as [PhaseEvent["type"], GamePhaseName[]][]) {
+      for (const phase of Object.values(PHASES).filter((phase) => !allowed.includes(phase.name))) {
+        assert.throws(
+          () => transition(phase, EVENTS[type]),
+          (err: unknown) => err instanceof PhaseTransitionError && err.phase === phase.name && err.event === type,
+          `${type} from ${phase.name}`
+        );
+      }
+    }
+  });
+});
+
+describe("screenPhase", () => {
+  it("shows what paused and reconnecting interrupted", () => {
+    assert.equal(screenPhase(paused), combat);
+    assert.equal(screenPhase(reconnecting), combat);
+    assert.equal(screenPhase({ name: "reconnecting", room: ROOM, resume: paused }), combat);
+    assert.equal(screenPhase(matchOver), matchOver);
+  });
+});
+
+describe("createGamePhaseStore", () => {
+  it("starts in the lobby and moves on valid events", () => {
+    const store = createGamePhaseStore();
+    assert.equal(store.get(), LOBBY);
+    assert.deepEqual(store.send(EVENTS.enterRoom), { name: "inRoom", room: REJOINED });
+    assert.deepEqual(store.get(), { name: "inRoom", room: REJOINED });
+  });
+
+  it("tells subscribers about changes only", () => {
+    const store = createGamePhaseStore(countdown);
+    let calls = 0;
+    const unsubscribe = store.subscribe(() => {
+      calls += 1;
+    });
+    store.send(EVENTS.combatStarted);
+    assert.equal(calls, 1);
+    store.send(EVENTS.reconnecting);
+    store.send(EVENTS.reconnecting);
+    assert.equal(calls, 2);
+    unsubscribe();
+    store.send(EVENTS.leaveRoom);
+    assert.equal(calls, 2);
+  });
+
+  it("throws and keeps the phase on an invalid event", () => {
+    const store = createGamePhaseStore(inRoom);
+    let calls = 0;
+    store.subscribe(() => {
+      calls += 1;
+    });
+    assert.throws(() => store.send(EVENTS.combatStarted), PhaseTransitionError);
+    assert.equal(store.get(), inRoom);
+    assert.equal(calls, 0);
+  });
+});
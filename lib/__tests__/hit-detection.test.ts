@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { crosshairForWeapon, detectHit, MISS, PoseLike } from "../hit-detection";
+import { getWeapon, WeaponId } from "../weapons";
+import poses from "./fixtures/poses.json";
+
+// Hand-built poses in PoseNet's keypoint format, in 640x480 detection space.
+// They aren't camera captures - each one is laid out to hit a specific case.
+const fixture = (name: keyof typeof poses): PoseLike => poses[name];
+
+const fire = (name: keyof typeof poses, weapon: WeaponId) =>
+  detectHit(fixture(name), getWeapon(weapon), crosshairForWeapon(getWeapon(weapon)));
+
+describe("detectHit", () => {
+  it("scores a headshot when the face is under the crosshair", () => {
+    const result = fire("headshot", "sniper");
+    assert.equal(result.hit, true);
+    assert.equal(result.zone, "head");
+    assert.equal(result.damage, getWeapon("sniper").damage.head);
+    assert.ok(Math.abs(result.confidence - 0.856) < 1e-9);
+  });
+
+  it("prefers the more confident zone when a wide crosshair covers two", () => {
+    // The pistol's radius reaches the shoulders too, but the face is surer
+    const result = fire("headshot", "pistol");
+    assert.equal(result.zone, "head");
+    assert.equal(result.damage, getWeapon("pistol").damage.head);
+  });
+
+  it("scores a torso hit on the chest", () => {
+    const result = fire("torso", "sniper");
+    assert.equal(result.hit, true);
+    assert.equal(result.zone, "torso");
+    assert.equal(result.damage, getWeapon("sniper").damage.torso);
+  });
+
+  it("misses an operator standing off to the side", () => {
+    for (const weapon of ["sniper", "pistol", "shotgun"] as const) {
+      assert.deepEqual(fire("offCentre", weapon), MISS, weapon);
+    }
+  });
+
+  it("still finds the torso when only the head and shoulders are in frame", () => {
+    const result = fire("upperBodyOnly", "sniper");
+    assert.equal(result.zone, "torso");
+    // Only the two shoulders count towards it - the hips were never seen
+    assert.ok(Math.abs(result.confidence - 0.82) < 1e-9);
+  });
+
+  it("won't damage a zone the model isn't sure about", () => {
+    for (const weapon of ["sniper", "pistol", "shotgun"] as const) {
+      assert.deepEqual(fire("lowConfidence", weapon), MISS, weapon);
+    }
+  });
+
+  it("ignores keypoints at or below the minimum score", () => {
+    assert.deepEqual(fire("noise", "shotgun"), MISS);
+  });
+});
@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { crosshairForWeapon } from "../hit-detection";
+import { parseShotRecord, ProtocolError } from "../protocol";
+import { COOLDOWN_TOLERANCE, MAX_POSE_AGE_MS, ShotRecord, verifyShot } from "../shot-verification";
+import { getWeapon, WEAPONS, WeaponId } from "../weapons";
+import poses from "./fixtures/poses.json";
+
+// An honest shot at one of the hit-detection fixtures, on the client clock
+const record = (name: keyof typeof poses, weapon: WeaponId, overrides: Partial<ShotRecord> = {}): ShotRecord => ({
+  weapon,
+  capturedAt: 1000,
+  firedAt: 1050,
+  crosshair: crosshairForWeapon(getWeapon(weapon)),
+  keypoints: poses[name].keypoints,
+  poseScore: 0.9,
+  clientZone: null,
+  ...overrides,
+});
+
+const NO_PREVIOUS_SHOT = { lastShotAt: null, now: 50000 };
+
+describe("verifyShot", () => {
+  it("accepts an honest headshot and deals the weapon's head damage", () => {
+    const verdict = verifyShot(record("headshot", "sniper", { clientZone: "head" }), NO_PREVIOUS_SHOT);
+    assert.equal(verdict.accepted, true);
+    assert.equal(verdict.reason, undefined);
+    assert.equal(verdict.zone, "head");
+    assert.equal(verdict.damage, getWeapon("sniper").damage.head);
+  });
+
+  it("never deals more than the weapon's damage for the zone it computed", () => {
+    for (const weapon of Object.keys(WEAPONS) as WeaponId[]) {
+      for (const name of Object.keys(poses) as (keyof typeof poses)[]) {
+        const verdict = verifyShot(record(name, weapon, { clientZone: "head" }), NO_PREVIOUS_SHOT);
+        const expected = verdict.zone ? getWeapon(weapon).damage[verdict.zone] : 0;
+        assert.equal(verdict.damage, expected, `${weapon} at ${name}`);
+      }
+    }
+  });
+
+  it("goes with the zone it computed when the client claims another", () => {
+    const verdict = verifyShot(record("torso", "sniper", { clientZone: "head" }), NO_PREVIOUS_SHOT);
+    assert.equal(verdict.accepted, true);
+    assert.equal(verdict.zone, "torso");
+    assert.equal(verdict.damage, getWeapon("sniper").damage.torso);
+    assert.match(verdict.reason ?? "", /client claimed head, server computed torso/);
+  });
+
+  it("deals nothing for a forged headshot on an operator outside the crosshair", () => {
+    const verdict = verifyShot(record("offCentre", "sniper", { clientZone: "head" }), NO_PREVIOUS_SHOT);
+    assert.equal(verdict.accepted, true);
+    assert.equal(verdict.zone, null);
+    assert.equal(verdict.damage, 0);
+    assert.match(verdict.reason ?? "", /client claimed head, server computed miss/);
+  });
+
+  it("judges against the weapon's own crosshair, not the one sent", () => {
+    // A shotgun-sized ring sent with a sniper shot doesn't widen the sniper's reach
+    const wide = crosshairForWeapon(getWeapon("shotgun"));
+    const verdict = verifyShot(record("offCentre", "sniper", { crosshair: wide }), NO_PREVIOUS_SHOT);
+    assert.equal(verdict.damage, 0);
+    assert.match(verdict.reason ?? "", /client crosshair differs from weapon spec/);
+  });
+
+  it("rejects shots inside the weapon's cooldown, allowing for jitter", () => {
+    const { cooldownMs } = getWeapon("pistol");
+    const early = Math.ceil(cooldownMs * COOLDOWN_TOLERANCE) - 1;
+    const rejected = verifyShot(record("headshot", "pistol"), { lastShotAt: 10000, now: 10000 + early });
+    assert.equal(rejected.accepted, false);
+    assert.equal(rejected.damage, 0);
+
+    const jittered = verifyShot(record("headshot", "pistol"), { lastShotAt: 10000, now: 10000 + early + 1 });
+    assert.equal(jittered.accepted, true);
+  });
+
+  it("rejects a pose captured after the trigger pull or too long before it", () => {
+    for (const capturedAt of [1051, 1050 - MAX_POSE_AGE_MS - 1]) {
+      const verdict = verifyShot(record("headshot", "sniper", { capturedAt }), NO_PREVIOUS_SHOT);
+      assert.equal(verdict.accepted, false, `captured at ${capturedAt}`);
+      assert.equal(verdict.damage, 0);
+    }
+  });
+});
+
+describe("parseShotRecord", () => {
+  it("passes an honest record through unchanged", () => {
+    const honest = record("headshot", "sniper", { clientZone: "head", targetId: "op-2" });
+    assert.deepEqual(parseShotRecord(JSON.parse(JSON.stringify(honest))), honest);
+  });
+
+  it("drops a forged damage figure, leaving the server to work it out", () => {
+    const forged = { ...record("torso", "pistol", { clientZone: "head" }), damage: 100 };
+    const parsed = parseShotRecord(forged);
+    assert.equal("damage" in parsed, false);
+    assert.equal(verifyShot(parsed, NO_PREVIOUS_SHOT).damage, getWeapon("pistol").damage.torso);
+  });
+
+  it("rejects a weapon it doesn't know", () => {
+    assert.throws(() => parseShotRecord({ ...record("headshot", "sniper"), weapon: "railgun" }), ProtocolError);
+  });
+
+  it("rejects a forged zone, including keys inherited from Object", () => {
+    for (const clientZone of ["neck", "toString", "__proto__", 1]) {
+      assert.throws(() => parseShotRecord({ ...record("headshot", "sniper"), clientZone }), ProtocolError, String(clientZone));
+    }
+  });
+
+  it("rejects keypoints that repeat a part", () => {
+    const [nose] = poses.headshot.keypoints;
+    assert.throws(() => parseShotRecord({ ...record("headshot", "sniper"), keypoints: [nose, nose] }), ProtocolError);
+  });
+
+  it("rejects a record missing its timing", () => {
+    assert.throws(() => parseShotRecord({ ...record("headshot", "sniper"), firedAt: undefined }), ProtocolError);
+  });
+});
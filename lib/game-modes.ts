@@ -0,0 +1,168 @@
+// Room modes and sizes. Shared by the lobby, the waiting room and the server.
+import type { Player, RoundResult } from "./protocol";
+
+export type GameMode = "duel" | "ffa" | "team";
+
+export interface RoomSettings {
+  mode: GameMode;
+  maxPlayers: number;
+  // Team mode only - whether shots on teammates do damage
+  friendlyFire?: boolean;
+  // Best-of-N; 1 (or missing) is a single-round match
+  rounds?: number;
+  // Round length in minutes; 0 (or missing) plays until elimination
+  timeLimitMinutes?: number;
+}
+
+export const ROUND_OPTIONS = [1, 3, 5];
+export const TIME_LIMIT_OPTIONS = [0, 2, 3, 5];
+
+export type TeamId = "alpha" | "bravo";
+
+export interface TeamOption {
+  label: string;
+  textClass: string;
+  overlayClass: string;
+}
+
+export const TEAMS: Record<TeamId, TeamOption> = {
+  alpha: { label: "ALPHA", textClass: "text-blue-400", overlayClass: "tactical-overlay-blue" },
+  bravo: { label: "BRAVO", textClass: "text-yellow-400", overlayClass: "tactical-overlay-yellow" },
+};
+
+export const TEAM_IDS = Object.keys(TEAMS) as TeamId[];
+
+export const isTeamId = (value: unknown): value is TeamId =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(TEAMS, value);
+
+export interface GameModeOption {
+  label: string;
+  description: string;
+  // The match can start once this many players are in and ready
+  minPlayers: number;
+  maxPlayers: number;
+  // Players are split into two teams of equal size
+  teams: boolean;
+}
+
+export const GAME_MODES: Record<GameMode, GameModeOption> = {
+  duel: { label: "DUEL", description: "One on one, first to drop loses", minPlayers: 2, maxPlayers: 2, teams: false },
+  ffa: {
+    label: "FREE-FOR-ALL",
+    description: "3 to 8 operators, last one standing wins",
+    minPlayers: 3,
+    maxPlayers: 8,
+    teams: false,
+  },
+  team: {
+    label: "TEAM DEATHMATCH",
+    description: "2v2 or 3v3, last team standing wins",
+    minPlayers: 4,
+    maxPlayers: 6,
+    teams: true,
+  },
+};
+
+export const GAME_MODE_IDS = Object.keys(GAME_MODES) as GameMode[];
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = { mode: "duel", maxPlayers: 2 };
+
+export const isGameMode = (value: unknown): value is GameMode =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(GAME_MODES, value);
+
+// Room sizes a mode allows, smallest first. Team rooms only come in even sizes.
+export const roomSizesFor = (mode: GameMode): number[] => {
+  const { minPlayers, maxPlayers, teams } = GAME_MODES[mode];
+  return Array.from({ length: maxPlayers - minPlayers + 1 }, (_, i) => minPlayers + i).filter(
+    (size) => !teams || size % 2 === 0
+  );
+};
+
+// Coerces whatever the client asked for into settings the mode allows.
+// Anything unrecognised falls back to a duel.
+export const normalizeRoomSettings = (value: unknown): RoomSettings => {
+  if (typeof value !== "object" || value === null) {
+    return DEFAULT_ROOM_SETTINGS;
+  }
+  const raw = value as Partial<Record<keyof RoomSettings, unknown>>;
+  if (!isGameMode(raw.mode)) {
+    return DEFAULT_ROOM_SETTINGS;
+  }
+  const { minPlayers, maxPlayers, teams } = GAME_MODES[raw.mode];
+  const requested = typeof raw.maxPlayers === "number" && Number.isFinite(raw.maxPlayers) ? Math.round(raw.maxPlayers) : maxPlayers;
+  const clamped = Math.max(minPlayers, Math.min(maxPlayers, requested));
+  const rounds = typeof raw.rounds === "number" && ROUND_OPTIONS.includes(raw.rounds) ? raw.rounds : 1;
+  const timeLimitMinutes =
+    typeof raw.timeLimitMinutes === "number" && TIME_LIMIT_OPTIONS.includes(raw.timeLimitMinutes) ? raw.timeLimitMinutes : 0;
+  if (!teams) {
+    return { mode: raw.mode, maxPlayers: clamped, rounds, timeLimitMinutes };
+  }
+  return {
+    mode: raw.mode,
+    maxPlayers: clamped - (clamped % 2),
+    friendlyFire: raw.friendlyFire === true,
+    rounds,
+    timeLimitMinutes,
+  };
+};
+
+// Switching mode starts from its largest room with friendly fire off, and
+// keeps the match length
+export const withGameMode = (settings: RoomSettings, mode: GameMode): RoomSettings => ({
+  mode,
+  maxPlayers: GAME_MODES[mode].maxPlayers,
+  friendlyFire: GAME_MODES[mode].teams ? false : undefined,
+  rounds: settings.rounds,
+  timeLimitMinutes: settings.timeLimitMinutes,
+});
+
+export const teamSize = (settings: RoomSettings) => Math.floor(settings.maxPlayers / 2);
+
+export const teamMembers = (players: Player[], team: TeamId) => players.filter((p) => p.team === team);
+
+// Teams have to be even before a team match can start
+const teamsBalanced = (players: Player[]) =>
+  players.every((p) => p.team !== undefined) &&
+  teamMembers(players, "alpha").length === teamMembers(players, "bravo").length;
+
+export const canStartMatch = (players: Player[], settings: RoomSettings): boolean =>
+  players.length >= GAME_MODES[settings.mode].minPlayers &&
+  players.length <= settings.maxPlayers &&
+  (!GAME_MODES[settings.mode].teams || teamsBalanced(players)) &&
+  // Between rounds, wait for the server to bring everyone back up
+  players.every((p) => p.ready && p.health > 0);
+
+// Whether a shot from one player on another can do damage
+export const canDamage = (shooter: Player, target: Player, settings: RoomSettings): boolean =>
+  !GAME_MODES[settings.mode].teams || settings.friendlyFire === true || shooter.team !== target.team;
+
+// Round wins a side needs to take the match outright
+export const roundsToWin = (settings: RoomSettings) => Math.floor((settings.rounds ?? 1) / 2) + 1;
+
+// Who a round counts for - the team in team modes, otherwise the player
+export const roundSide = (result: RoundResult) => result.winningTeam ?? result.winner;
+
+// Round wins per side, in the order sides first scored
+export const tallyRounds = (results: RoundResult[]): Map<string, number> => {
+  const wins = new Map<string, number>();
+  results.forEach((result) => wins.set(roundSide(result), (wins.get(roundSide(result)) ?? 0) + 1));
+  return wins;
+};
+
+// The side ahead on round wins; a tie goes to whoever won a round most recently
+export const matchLeader = (results: RoundResult[]): string | null => {
+  const wins = tallyRounds(results);
+  const best = Math.max(0, ...wins.values());
+  const tied = new Set([...wins].filter(([, count]) => count === best).map(([side]) => side));
+  const latest = [...results].reverse().find((result) => tied.has(roundSide(result)));
+  return latest ? roundSide(latest) : null;
+};
+
+export const isMatchDecided = (results: RoundResult[], settings: RoomSettings) =>
+  results.length >= (settings.rounds ?? 1) || Math.max(0, ...tallyRounds(results).values()) >= roundsToWin(settings);
+
+// Join order with the host first - the order slot numbers are handed out in
+export const hostFirst = (players: Player[]) => [...players].sort((a, b) => Number(!!b.isHost) - Number(!!a.isHost));
+
+// Players are listed in join order with the host first, so slot numbers are stable
+export const operatorLabel = (index: number) => `OPERATOR-${String(index + 1).padStart(2, "0")}`;
@@ -0,0 +1,233 @@
+// Where the client is in the flow of a match, as an explicit state machine.
+// Socket handlers and UI actions send events; transition() works out the next
+// phase and throws on anything that doesn't make sense from the current one.
+import { DEFAULT_ROOM_SETTINGS, RoomSettings } from "./game-modes";
+import type { PauseInfo } from "./protocol";
+
+export interface RoomState {
+  isInRoom: boolean;
+  roomCode: string | null;
+  isHost: boolean;
+  // Our stable id in the room; null on servers that don't issue one
+  operatorId: string | null;
+  settings: RoomSettings;
+  // Watching without a seat - no camera, no weapons
+  isSpectator: boolean;
+}
+
+export const LEFT_ROOM: RoomState = {
+  isInRoom: false,
+  roomCode: null,
+  isHost: false,
+  operatorId: null,
+  settings: DEFAULT_ROOM_SETTINGS,
+  isSpectator: false,
+};
+
+// Every phase carries the room it's in; LEFT_ROOM in the lobby
+export type GamePhase =
+  | { name: "lobby"; room: RoomState }
+  // Briefing: picking weapons and readying up
+  | { name: "inRoom"; room: RoomState }
+  // startsAt is server time; offset is serverTime - clientTime when it began
+  | { name: "countdown"; room: RoomState; startsAt: number; offset: number }
+  // suddenDeath: a timed round ran out level - headshots only
+  | { name: "combat"; room: RoomState; suddenDeath: boolean }
+  // A round of a best-of-N match is over and the next one follows
+  | { name: "roundOver"; room: RoomState }
+  | { name: "matchOver"; room: RoomState }
+  // Play is held for a player who dropped out; resume is what carries on
+  // afterwards. forfeitAt and resumesAt (once they're back) are server time.
+  | ({
+      name: "paused";
+      room: RoomState;
+      resume: CountdownPhase | CombatPhase;
+      forfeitAt: number;
+      resumesAt: number | null;
+      offset: number;
+    } & PauseInfo)
+  // Getting our seat back after a dropped connection or a page reload
+  | { name: "reconnecting"; room: RoomState; resume: Exclude<GamePhase, { name: "reconnecting" }> };
+
+export type GamePhaseName = GamePhase["name"];
+type CountdownPhase = Extract<GamePhase, { name: "countdown" }>;
+type CombatPhase = Extract<GamePhase, { name: "combat" }>;
+// Phases with a screen of their own
+export type ScreenPhase = Exclude<GamePhase, { name: "paused" } | { name: "reconnecting" }>;
+
+export type PhaseEvent =
+  // A new room, or our seat back after reconnecting
+  | { type: "enterRoom"; room: RoomState }
+  | { type: "leaveRoom" }
+  | { type: "countdownStarted"; startsAt: number; offset: number }
+  | { type: "countdownCancelled" }
+  | { type: "combatStarted" }
+  | { type: "suddenDeath" }
+  | { type: "roundOver" }
+  | { type: "matchOver" }
+  // Back to the briefing for a fresh match in the same room - after a
+  // rematch, or when the match is called off for lack of players
+  | { type: "reset" }
+  // The room passed to a new host
+  | { type: "hostChanged"; isHost: boolean }
+  // The host changed the settings before the match started
+  | { type: "settingsChanged"; settings: RoomSettings }
+  | { type: "reconnecting" }
+  | ({ type: "pause"; forfeitAt: number; offset: number } & PauseInfo)
+  // The resume countdown has run out
+  | { type: "resume" };
+
+export const LOBBY: GamePhase = { name: "lobby", room: LEFT_ROOM };
+
+// Thrown for an event the current phase has no transition for
+export class PhaseTransitionError extends Error {
+  constructor(public readonly phase: GamePhaseName, public readonly event: PhaseEvent["type"]) {
+    super(`No "${event}" transition from the ${phase} phase`);
+    this.name = "PhaseTransitionError";
+  }
+}
+
+const isOneOf = (phase: GamePhase, names: GamePhaseName[]) => names.includes(phase.name);
+
+export const transition = (phase: GamePhase, event: PhaseEvent): GamePhase => {
+  const { room } = phase;
+  switch (event.type) {
+    case "enterRoom":
+      if (phase.name === "lobby") {
+        return { name: "inRoom", room: event.room };
+      }
+      if (phase.name === "reconnecting") {
+        // A countdown may have been called off while we were gone; the server
+        // sends a fresh matchStart if it's still on
+        const { resume } = phase;
+        return resume.name === "lobby" || resume.name === "countdown"
+          ? { name: "inRoom", room: event.room }
+          : { ...resume, room: event.room };
+      }
+      break;
+    case "leaveRoom":
+      return LOBBY;
+    case "countdownStarted":
+      if (isOneOf(phase, ["inRoom", "roundOver", "countdown"])) {
+        return { name: "countdown", room, startsAt: event.startsAt, offset: event.offset };
+      }
+      // They're back - count down to picking up where play stopped
+      if (phase.name === "paused") {
+        return { ...phase, resumesAt: event.startsAt, offset: event.offset };
+      }
+      break;
+    case "countdownCancelled":
+      if (phase.name === "countdown") {
+        return { name: "inRoom", room };
+      }
+      break;
+    case "combatStarted":
+      if (phase.name === "countdown") {
+        return { name: "combat", room, suddenDeath: false };
+      }
+      break;
+    case "suddenDeath":
+      if (phase.name === "combat") {
+        return { name: "combat", room, suddenDeath: true };
+      }
+      break;
+    case "roundOver":
+      // Rejoining mid-round on an older server skips the countdown, so the
+      // result can arrive before we knew combat had started
+      if (isOneOf(phase, ["inRoom", "countdown", "combat", "paused"])) {
+        return { name: "roundOver", room };
+      }
+      break;
+    case "matchOver":
+      if (isOneOf(phase, ["inRoom", "countdown", "combat", "roundOver", "paused"])) {
+        return { name: "matchOver", room };
+      }
+      break;
+    case "reset":
+      if (phase.name === "inRoom") {
+        return phase;
+      }
+      if (isOneOf(phase, ["countdown", "combat", "paused", "roundOver", "matchOver"])) {
+        return { name: "inRoom", room };
+      }
+      break;
+    case "hostChanged":
+      if (phase.name !== "lobby") {
+        return { ...phase, room: { ...room, isHost: event.isHost } };
+      }
+      break;
+    case "settingsChanged":
+      if (phase.name === "inRoom") {
+        return { name: "inRoom", room: { ...room, settings: event.settings } };
+      }
+      break;
+    case "reconnecting":
+      if (phase.name === "reconnecting") {
+        return phase;
+      }
+      return { name: "reconnecting", room, resume: phase };
+    case "pause": {
+      const pause = { operator: event.operator, cause: event.cause, forfeitAt: event.forfeitAt, offset: event.offset };
+      if (phase.name === "countdown" || phase.name === "combat") {
+        return { name: "paused", room, resume: phase, resumesAt: null, ...pause };
+      }
+      // Someone else dropped out too, or one of several came back - play is
+      // still held, for whoever the server names now
+      if (phase.name === "paused") {
+        return { ...phase, resumesAt: null, ...pause };
+      }
+      // Back from a reload into a match that's on hold - play carries on in
+      // combat once it resumes
+      if (phase.name === "inRoom") {
+        return { name: "paused", room, resume: { name: "combat", room, suddenDeath: false }, resumesAt: null, ...pause };
+      }
+      break;
+    }
+    case "resume":
+      if (phase.name === "paused") {
+        return { ...phase.resume, room };
+      }
+      break;
+  }
+  throw new PhaseTransitionError(phase.name, event.type);
+};
+
+// What to show on screen - paused and reconnecting keep up the screen they
+// interrupted, with an overlay on top
+export const screenPhase = (phase: GamePhase): ScreenPhase => {
+  if (phase.name === "reconnecting") {
+    return screenPhase(phase.resume);
+  }
+  return phase.name === "paused" ? phase.resume : phase;
+};
+
+// Holds the current phase outside React so socket handlers always read the
+// latest one; the UI subscribes with useSyncExternalStore
+export interface GamePhaseStore {
+  get: () => GamePhase;
+  // Throws PhaseTransitionError and leaves the phase alone if the event isn't allowed
+  send: (event: PhaseEvent) => GamePhase;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const createGamePhaseStore = (initial: GamePhase = LOBBY): GamePhaseStore => {
+  let current = initial;
+  const listeners = new Set<() => void>();
+  return {
+    get: () => current,
+    send: (event) => {
+      const next = transition(current, event);
+      if (next !== current) {
+        current = next;
+        listeners.forEach((listener) => listener());
+      }
+      return current;
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,119 @@
+// Pure hit detection: pose + weapon + crosshair geometry in, hit result out.
+// No sound, socket or React state in here so it can be shared with the server
+// and tuned without touching the game loop.
+import type { HitZone, WeaponDefinition } from "./weapons";
+
+// Hit detection area - pose coordinates are in this space
+export const DETECTION_WIDTH = 640;
+export const DETECTION_HEIGHT = 480;
+
+export interface PoseKeypoint {
+  part: string;
+  score: number;
+  position: { x: number; y: number };
+}
+
+export interface PoseLike {
+  keypoints: PoseKeypoint[];
+  // Overall confidence for the person, when the model reports one
+  score?: number;
+}
+
+export interface CrosshairGeometry {
+  centerX: number;
+  centerY: number;
+  radius: number;
+}
+
+export interface HitResult {
+  hit: boolean;
+  zone: HitZone | null;
+  damage: number;
+  // Collective keypoint score of the zone that was hit, 0 on a miss
+  confidence: number;
+}
+
+export const HEAD_PARTS = ["nose", "leftEye", "rightEye", "leftEar", "rightEar"];
+export const TORSO_PARTS = ["leftShoulder", "rightShoulder", "leftHip", "rightHip"];
+export const LOWER_BODY_PARTS = ["leftHip", "rightHip"];
+
+export const ZONE_PARTS: Record<HitZone, string[]> = {
+  head: HEAD_PARTS,
+  torso: TORSO_PARTS,
+  lowerBody: LOWER_BODY_PARTS,
+};
+
+// Keypoints at or below this score are ignored entirely
+export const MIN_KEYPOINT_SCORE = 0.3;
+// A zone needs a collective score above this before it can take damage
+export const ZONE_SCORE_THRESHOLD = 0.5;
+
+// Vertical zones based on 480px height
+export const HEAD_ZONE_MAX = DETECTION_HEIGHT * 0.5; // 240px (50% of 480) to cover face
+export const TORSO_ZONE_MAX = DETECTION_HEIGHT * 0.85; // 408px (85% of 480) for torso
+
+export const MISS: HitResult = { hit: false, zone: null, damage: 0, confidence: 0 };
+
+// Crosshair sits at the centre of the detection area with the weapon's radius
+export const crosshairForWeapon = (weapon: Pick<WeaponDefinition, "hitRadius">): CrosshairGeometry => ({
+  centerX: DETECTION_WIDTH / 2,
+  centerY: DETECTION_HEIGHT / 2,
+  radius: weapon.hitRadius,
+});
+
+export const getZoneKeypoints = (pose: PoseLike, zone: HitZone): PoseKeypoint[] =>
+  ZONE_PARTS[zone]
+    .map((part) => pose.keypoints.find((k) => k.part === part))
+    .filter((k): k is PoseKeypoint => k !== undefined && k.score > MIN_KEYPOINT_SCORE);
+
+export const collectiveScore = (keypoints: PoseKeypoint[]) =>
+  keypoints.length ? keypoints.reduce((sum, k) => sum + k.score, 0) / keypoints.length : 0;
+
+// Which vertical band a keypoint of the given zone has to sit in to count
+const inZoneBand = (zone: HitZone, y: number) => {
+  if (zone === "head") return y < HEAD_ZONE_MAX;
+  if (zone === "torso") return y >= HEAD_ZONE_MAX && y < TORSO_ZONE_MAX;
+  return y >= TORSO_ZONE_MAX;
+};
+
+// Zones are checked in this order for each keypoint; a hip can only count for
+// one of torso / lower body depending on which band it's in
+const ZONE_ORDER: HitZone[] = ["head", "torso", "lowerBody"];
+
+// Works out which body zone (if any) sits under the crosshair and how much
+// damage the weapon deals there. When several zones qualify the one with the
+// highest collective score wins.
+export const detectHit = (
+  pose: PoseLike,
+  weapon: Pick<WeaponDefinition, "damage">,
+  crosshair: CrosshairGeometry
+): HitResult => {
+  const zoneKeypoints = {} as Record<HitZone, PoseKeypoint[]>;
+  const zoneScores = {} as Record<HitZone, number>;
+  for (const zone of ZONE_ORDER) {
+    zoneKeypoints[zone] = getZoneKeypoints(pose, zone);
+    zoneScores[zone] = collectiveScore(zoneKeypoints[zone]);
+  }
+
+  let best: HitResult = MISS;
+
+  for (const keypoint of ZONE_ORDER.flatMap((zone) => zoneKeypoints[zone])) {
+    const { x, y } = keypoint.position;
+    const distance = Math.hypot(x - crosshair.centerX, y - crosshair.centerY);
+    if (distance >= crosshair.radius) {
+      continue;
+    }
+
+    const zone = ZONE_ORDER.find(
+      (candidate) =>
+        ZONE_PARTS[candidate].includes(keypoint.part) &&
+        inZoneBand(candidate, y) &&
+        zoneScores[candidate] > ZONE_SCORE_THRESHOLD
+    );
+    if (zone && zoneScores[zone] > best.confidence) {
+      best = { hit: true, zone, damage: weapon.damage[zone], confidence: zoneScores[zone] };
+    }
+  }
+
+  return best;
+};
@@ -0,0 +1,31 @@
+// On-screen feedback for playerHit: a hit marker and damage number over the
+// shooter's crosshair, and a red flash on the victim's screen.
+import type { HitZone } from "./weapons";
+
+// How long the hit marker and damage number stay up
+export const HIT_MARKER_MS = 700;
+// How long the victim's damage flash lasts
+export const DAMAGE_FLASH_MS = 600;
+
+export interface HitMarker {
+  // Changes on every hit so the animation restarts
+  id: number;
+  damage: number;
+  zone: HitZone;
+  // The shot took the target out
+  eliminated: boolean;
+}
+
+export interface DamageFlash {
+  id: number;
+  damage: number;
+  zone: HitZone;
+}
+
+// The flash comes in from the edge nearest where the victim was hit: the top
+// for headshots, the bottom for legs, all round for the body
+export const DAMAGE_FLASH_GRADIENTS: Record<HitZone, string> = {
+  head: "linear-gradient(to bottom, rgba(220, 38, 38, 0.75) 0%, rgba(220, 38, 38, 0.2) 35%, transparent 60%)",
+  torso: "radial-gradient(ellipse at center, transparent 45%, rgba(220, 38, 38, 0.6) 100%)",
+  lowerBody: "linear-gradient(to top, rgba(220, 38, 38, 0.6) 0%, rgba(220, 38, 38, 0.15) 35%, transparent 60%)",
+};
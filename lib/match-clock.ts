@@ -0,0 +1,58 @@
+// Match timing. The server sends its own timestamps; the client works out how
+// far its clock is from the server's and counts down from that, so every
+// player's countdown and round clock run out at the same moment.
+import type { MatchClockPayload, TimeSyncAckPayload } from "./protocol";
+
+// Ready-up countdown before combat starts
+export const COUNTDOWN_MS = 5000;
+// timeSync round trips sent in a burst when connecting
+export const CLOCK_SYNC_BURST = 5;
+// Recent round trips kept for the offset estimate
+const MAX_CLOCK_SAMPLES = 8;
+
+export interface MatchClock {
+  // Server time the regular clock runs out, null once in sudden death
+  endsAt: number | null;
+  // serverTime - clientTime
+  offset: number;
+  suddenDeath: boolean;
+}
+
+// One timeSync round trip
+export interface ClockSample {
+  // serverTime - clientTime
+  offset: number;
+  roundTrip: number;
+}
+
+// Without a synced offset, fall back to assuming the payload arrived instantly
+export const toMatchClock = (
+  { endsAt, serverNow, suddenDeath }: MatchClockPayload,
+  offset = serverNow - Date.now()
+): MatchClock => ({ endsAt, offset, suddenDeath });
+
+export const remainingMs = (clock: MatchClock, now = Date.now()): number =>
+  clock.endsAt === null ? 0 : Math.max(0, clock.endsAt - (now + clock.offset));
+
+// Assumes the reply spent half the round trip on the way back
+export const clockSample = ({ clientSentAt, serverNow }: TimeSyncAckPayload, receivedAt = Date.now()): ClockSample => {
+  const roundTrip = Math.max(0, receivedAt - clientSentAt);
+  return { offset: serverNow + roundTrip / 2 - receivedAt, roundTrip };
+};
+
+export const addClockSample = (samples: ClockSample[], sample: ClockSample): ClockSample[] =>
+  [...samples, sample].slice(-MAX_CLOCK_SAMPLES);
+
+// Goes with the quickest round trip, which leaves the least room for one
+// direction being slower than the other. Null until a sample has come back.
+export const estimateOffset = (samples: ClockSample[]): number | null =>
+  samples.length === 0 ? null : samples.reduce((best, sample) => (sample.roundTrip < best.roundTrip ? sample : best)).offset;
+
+// Time left until a server timestamp, negative once it has passed
+export const msUntil = (serverTime: number, offset: number, now = Date.now()) => serverTime - (now + offset);
+
+// 154000 -> "2:34"
+export const formatClock = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, "0")}`;
+};
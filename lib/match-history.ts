@@ -0,0 +1,218 @@
+// Completed matches kept in IndexedDB so the service record survives reloads,
+// plus the career totals worked out from them and JSON export/import.
+import { GameMode, isGameMode } from "./game-modes";
+import type { MatchLogEntry } from "./match-log";
+import { matchDuration, operatorStats, WeaponStats } from "./match-stats";
+import { HitZone, isWeaponId, WeaponId } from "./weapons";
+
+const DB_NAME = "d3athsync";
+const DB_VERSION = 1;
+const STORE_NAME = "matches";
+// Bump if MatchRecord changes in a way older exports can't be read as
+const EXPORT_VERSION = 1;
+
+export interface MatchRecord {
+  id: string;
+  playedAt: number;
+  mode: GameMode;
+  // Opponent slot labels as they were in the room, e.g. OPERATOR-02
+  opponents: string[];
+  // The weapon fired most, or the one equipped if nothing was fired
+  weapon: WeaponId;
+  won: boolean;
+  shots: number;
+  hits: number;
+  accuracy: number;
+  zones: Record<HitZone, number>;
+  weapons: Partial<Record<WeaponId, WeaponStats>>;
+  damageTaken: number;
+  durationMs: number;
+}
+
+export interface WeaponCareer extends WeaponStats {
+  // Matches where this was the main weapon, and how many of them were won
+  matches: number;
+  wins: number;
+}
+
+export interface CareerStats {
+  matches: number;
+  wins: number;
+  // 0-1
+  winRate: number;
+  accuracy: number;
+  weapons: Partial<Record<WeaponId, WeaponCareer>>;
+}
+
+interface MatchRecordInput {
+  log: MatchLogEntry[];
+  self: string;
+  opponents: string[];
+  mode: GameMode;
+  won: boolean;
+  equipped: WeaponId;
+}
+
+export const buildMatchRecord = ({ log, self, opponents, mode, won, equipped }: MatchRecordInput): MatchRecord => {
+  const stats = operatorStats(log, self);
+  const fired = Object.entries(stats.byWeapon) as [WeaponId, WeaponStats][];
+  const mostFired = fired.sort(([, a], [, b]) => b.shots - a.shots)[0]?.[0];
+  const playedAt = Date.now();
+  return {
+    id: `${playedAt}-${Math.random().toString(36).slice(2, 8)}`,
+    playedAt,
+    mode,
+    opponents,
+    weapon: mostFired ?? equipped,
+    won,
+    shots: stats.shots,
+    hits: stats.hits,
+    accuracy: stats.accuracy,
+    zones: stats.zones,
+    weapons: stats.byWeapon,
+    damageTaken: Object.values(stats.damageTaken).reduce((sum, damage) => sum + damage, 0),
+    durationMs: matchDuration(log),
+  };
+};
+
+export const careerStats = (records: MatchRecord[]): CareerStats => {
+  const weapons: Partial<Record<WeaponId, WeaponCareer>> = {};
+  records.forEach((record) => {
+    (Object.entries(record.weapons) as [WeaponId, WeaponStats][]).forEach(([weapon, stats]) => {
+      const career = (weapons[weapon] ??= { shots: 0, hits: 0, damage: 0, matches: 0, wins: 0 });
+      career.shots += stats.shots;
+      career.hits += stats.hits;
+      career.damage += stats.damage;
+    });
+    const main = (weapons[record.weapon] ??= { shots: 0, hits: 0, damage: 0, matches: 0, wins: 0 });
+    main.matches += 1;
+    main.wins += record.won ? 1 : 0;
+  });
+  const wins = records.filter((record) => record.won).length;
+  const shots = records.reduce((sum, record) => sum + record.shots, 0);
+  const hits = records.reduce((sum, record) => sum + record.hits, 0);
+  return {
+    matches: records.length,
+    wins,
+    winRate: records.length > 0 ? wins / records.length : 0,
+    accuracy: shots > 0 ? hits / shots : 0,
+    weapons,
+  };
+};
+
+const openHistory = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Records with an id that's already stored replace the stored one
+export const saveMatches = async (records: MatchRecord[]): Promise<void> => {
+  const db = await openHistory();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      const store = transaction.objectStore(STORE_NAME);
+      records.forEach((record) => store.put(record));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveMatch = (record: MatchRecord) => saveMatches([record]);
+
+// Newest first
+export const loadMatches = async (): Promise<MatchRecord[]> => {
+  const db = await openHistory();
+  try {
+    const records = await new Promise<MatchRecord[]>((resolve, reject) => {
+      const request = db.transaction(STORE_NAME).objectStore(STORE_NAME).getAll();
+      request.onsuccess = () => resolve(request.result as MatchRecord[]);
+      request.onerror = () => reject(request.error);
+    });
+    return records.sort((a, b) => b.playedAt - a.playedAt);
+  } finally {
+    db.close();
+  }
+};
+
+export const exportHistory = (records: MatchRecord[]): string =>
+  JSON.stringify({ version: EXPORT_VERSION, exportedAt: new Date().toISOString(), matches: records }, null, 2);
+
+const isCount = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+const isWeaponStats = (value: unknown): value is WeaponStats => {
+  const raw = value as Partial<Record<keyof WeaponStats, unknown>> | null;
+  return typeof raw === "object" && raw !== null && isCount(raw.shots) && isCount(raw.hits) && isCount(raw.damage);
+};
+
+const parseMatchRecord = (value: unknown): MatchRecord | null => {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  const raw = value as Partial<Record<keyof MatchRecord, unknown>>;
+  const zones = raw.zones as Partial<Record<HitZone, unknown>> | undefined;
+  const weapons = raw.weapons as Record<string, unknown> | undefined;
+  if (
+    typeof raw.id !== "string" ||
+    !isCount(raw.playedAt) ||
+    !isGameMode(raw.mode) ||
+    !Array.isArray(raw.opponents) ||
+    !raw.opponents.every((opponent) => typeof opponent === "string") ||
+    !isWeaponId(raw.weapon) ||
+    typeof raw.won !== "boolean" ||
+    !isCount(raw.shots) ||
+    !isCount(raw.hits) ||
+    !isCount(raw.accuracy) ||
+    typeof zones !== "object" ||
+    zones === null ||
+    !isCount(zones.head) ||
+    !isCount(zones.torso) ||
+    !isCount(zones.lowerBody) ||
+    typeof weapons !== "object" ||
+    weapons === null ||
+    !Object.entries(weapons).every(([weapon, stats]) => isWeaponId(weapon) && isWeaponStats(stats)) ||
+    !isCount(raw.damageTaken) ||
+    !isCount(raw.durationMs)
+  ) {
+    return null;
+  }
+  return {
+    id: raw.id,
+    playedAt: raw.playedAt,
+    mode: raw.mode,
+    opponents: raw.opponents,
+    weapon: raw.weapon,
+    won: raw.won,
+    shots: raw.shots,
+    hits: raw.hits,
+    accuracy: raw.accuracy,
+    zones: { head: zones.head, torso: zones.torso, lowerBody: zones.lowerBody },
+    weapons: weapons as Partial<Record<WeaponId, WeaponStats>>,
+    damageTaken: raw.damageTaken,
+    durationMs: raw.durationMs,
+  };
+};
+
+// Reads an export back in. Throws if the file isn't an export at all; records
+// that don't check out are skipped.
+export const importHistory = (json: string): MatchRecord[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+  const matches = Array.isArray(parsed) ? parsed : (parsed as { matches?: unknown } | null)?.matches;
+  if (!Array.isArray(matches)) {
+    throw new Error("File is not a D3ATHSYNC service record export");
+  }
+  return matches.map(parseMatchRecord).filter((record): record is MatchRecord => record !== null);
+};
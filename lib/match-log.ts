@@ -0,0 +1,62 @@
+// Structured, timestamped record of everything that happens in a match. The
+// kill feed, the spectator feed and the game-over screen all read from this
+// rather than keeping their own copies.
+import { GameOverReason, operatorKey, PauseCause, Player } from "./protocol";
+import type { HitZone, WeaponId } from "./weapons";
+
+// Operators are identified by operator key throughout, see operatorKey()
+export type MatchEvent =
+  | { type: "ready"; operator: string; ready: boolean }
+  | { type: "connection"; operator: string; connected: boolean }
+  | { type: "countdown" }
+  | { type: "combat" }
+  // A shot went off; whether it landed shows up as a following "hit"
+  | { type: "shot"; shooter: string; weapon: WeaponId }
+  | { type: "hit"; shooter: string; target: string; weapon: WeaponId; zone: HitZone; damage: number; health: number }
+  | { type: "eliminated"; operator: string; by: string }
+  | { type: "suddenDeath" }
+  | { type: "paused"; operator: string; cause: PauseCause }
+  | { type: "resumed" }
+  // side is an operator key, or a team id in team modes
+  | { type: "round"; round: number; side: string; reason?: GameOverReason }
+  | { type: "result"; side: string; reason?: GameOverReason };
+
+// id is the entry's position in the log, which only ever grows
+export type MatchLogEntry = MatchEvent & { id: number; at: number };
+
+// How many lines the combat HUD's kill feed and the spectator feed show
+export const KILL_FEED_LENGTH = 5;
+export const SPECTATOR_FEED_LENGTH = 8;
+
+export const logEvent = (log: MatchLogEntry[], event: MatchEvent, at = Date.now()): MatchLogEntry[] => [
+  ...log,
+  { ...event, id: log.length, at },
+];
+
+export const logEvents = (log: MatchLogEntry[], events: MatchEvent[], at = Date.now()): MatchLogEntry[] =>
+  events.reduce((next, event) => logEvent(next, event, at), log);
+
+// Ready and connection changes between two successive player lists
+export const rosterChanges = (before: Player[], after: Player[]): MatchEvent[] =>
+  after.flatMap((player): MatchEvent[] => {
+    const operator = operatorKey(player);
+    const previous = before.find((p) => operatorKey(p) === operator);
+    if (!previous) {
+      return [];
+    }
+    const changes: MatchEvent[] = [];
+    if (player.ready !== previous.ready) {
+      changes.push({ type: "ready", operator, ready: player.ready });
+    }
+    if ((player.connected ?? true) !== (previous.connected ?? true)) {
+      changes.push({ type: "connection", operator, connected: player.connected ?? true });
+    }
+    return changes;
+  });
+
+// Latest hits and eliminations, newest first
+export const killFeed = (log: MatchLogEntry[]): MatchLogEntry[] =>
+  log
+    .filter((entry) => entry.type === "hit" || entry.type === "eliminated")
+    .slice(-KILL_FEED_LENGTH)
+    .reverse();
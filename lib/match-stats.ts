@@ -0,0 +1,82 @@
+// Post-match numbers for the debrief, worked out from the match log
+import type { MatchLogEntry } from "./match-log";
+import type { HitZone, WeaponId } from "./weapons";
+
+export interface WeaponStats {
+  shots: number;
+  hits: number;
+  damage: number;
+}
+
+export interface OperatorStats {
+  operator: string;
+  shots: number;
+  hits: number;
+  // 0-1; 0 when nothing was fired
+  accuracy: number;
+  // Hits landed, by where they landed
+  zones: Record<HitZone, number>;
+  damageDealt: Partial<Record<WeaponId, number>>;
+  // Keyed by the weapon that did the damage
+  damageTaken: Partial<Record<WeaponId, number>>;
+  // Shots, hits and damage for each weapon this operator fired
+  byWeapon: Partial<Record<WeaponId, WeaponStats>>;
+}
+
+const addDamage = (totals: Partial<Record<WeaponId, number>>, weapon: WeaponId, damage: number) => {
+  totals[weapon] = (totals[weapon] ?? 0) + damage;
+};
+
+export const operatorStats = (log: MatchLogEntry[], operator: string): OperatorStats => {
+  const stats: OperatorStats = {
+    operator,
+    shots: 0,
+    hits: 0,
+    accuracy: 0,
+    zones: { head: 0, torso: 0, lowerBody: 0 },
+    damageDealt: {},
+    damageTaken: {},
+    byWeapon: {},
+  };
+  const weaponStats = (weapon: WeaponId) => (stats.byWeapon[weapon] ??= { shots: 0, hits: 0, damage: 0 });
+  log.forEach((entry) => {
+    if (entry.type === "shot" && entry.shooter === operator) {
+      stats.shots += 1;
+      weaponStats(entry.weapon).shots += 1;
+    } else if (entry.type === "hit" && entry.shooter === operator) {
+      stats.hits += 1;
+      stats.zones[entry.zone] += 1;
+      addDamage(stats.damageDealt, entry.weapon, entry.damage);
+      const weapon = weaponStats(entry.weapon);
+      weapon.hits += 1;
+      weapon.damage += entry.damage;
+    }
+    if (entry.type === "hit" && entry.target === operator) {
+      addDamage(stats.damageTaken, entry.weapon, entry.damage);
+    }
+  });
+  // Servers that don't send shotFired leave other players' shots out of the log
+  stats.shots = Math.max(stats.shots, stats.hits);
+  Object.values(stats.byWeapon).forEach((weapon) => {
+    weapon.shots = Math.max(weapon.shots, weapon.hits);
+  });
+  stats.accuracy = stats.shots > 0 ? stats.hits / stats.shots : 0;
+  return stats;
+};
+
+// From the first countdown finishing to the final result, in ms
+export const matchDuration = (log: MatchLogEntry[]): number => {
+  const start = log.find((entry) => entry.type === "combat") ?? log[0];
+  const end = [...log].reverse().find((entry) => entry.type === "result") ?? log[log.length - 1];
+  return start && end ? Math.max(0, end.at - start.at) : 0;
+};
+
+// Share of hits per zone relative to the most-hit zone, 0-1, for shading the silhouette
+export const zoneHeat = (zones: Record<HitZone, number>): Record<HitZone, number> => {
+  const most = Math.max(...Object.values(zones));
+  return {
+    head: most > 0 ? zones.head / most : 0,
+    torso: most > 0 ? zones.torso / most : 0,
+    lowerBody: most > 0 ? zones.lowerBody / most : 0,
+  };
+};
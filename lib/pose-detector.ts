@@ -0,0 +1,154 @@
+// Pose detector abstraction. The game only ever sees PoseLike poses in the
+// common keypoint schema below, whichever model produced them.
+import type { Keypoint as RawKeypoint, PoseDetector as RawPoseDetector } from "@tensorflow-models/pose-detection";
+import type { PoseKeypoint, PoseLike } from "./hit-detection";
+
+export type PoseBackendId = "posenet" | "movenet-lightning" | "movenet-thunder" | "movenet-multipose" | "blazepose";
+
+export interface PoseBackendOption {
+  label: string;
+  description: string;
+  // Whether the model can see more than one person per frame
+  multiPose: boolean;
+}
+
+export const POSE_BACKENDS: Record<PoseBackendId, PoseBackendOption> = {
+  posenet: { label: "POSENET", description: "Original model, lightest on older phones", multiPose: true },
+  "movenet-lightning": {
+    label: "MOVENET LIGHTNING",
+    description: "Fast and stable, single person only",
+    multiPose: false,
+  },
+  "movenet-thunder": {
+    label: "MOVENET THUNDER",
+    description: "Most accurate MoveNet, single person only, needs a fast device",
+    multiPose: false,
+  },
+  "movenet-multipose": {
+    label: "MOVENET MULTIPOSE",
+    description: "Lightning variant that tracks up to 6 people, recommended for phones",
+    multiPose: true,
+  },
+  blazepose: {
+    label: "BLAZEPOSE",
+    description: "Full-body model, single person only, best with the whole body in frame",
+    multiPose: false,
+  },
+};
+
+// Upper bound on people tracked per frame for multi-pose models
+export const MAX_TRACKED_POSES = 6;
+
+export const POSE_BACKEND_IDS = Object.keys(POSE_BACKENDS) as PoseBackendId[];
+
+export const DEFAULT_POSE_BACKEND: PoseBackendId = "posenet";
+
+export const POSE_BACKEND_STORAGE_KEY = "d3athsync:poseBackend";
+
+export const isPoseBackendId = (value: unknown): value is PoseBackendId =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(POSE_BACKENDS, value);
+
+// Common keypoint schema - the 17 COCO keypoints with PoseNet's part names.
+// Models with more keypoints (BlazePose) are reduced to this set.
+export const KEYPOINT_PARTS = [
+  "nose",
+  "leftEye",
+  "rightEye",
+  "leftEar",
+  "rightEar",
+  "leftShoulder",
+  "rightShoulder",
+  "leftElbow",
+  "rightElbow",
+  "leftWrist",
+  "rightWrist",
+  "leftHip",
+  "rightHip",
+  "leftKnee",
+  "rightKnee",
+  "leftAnkle",
+  "rightAnkle",
+];
+
+export const SKELETON_EDGES: [string, string][] = [
+  ["leftShoulder", "rightShoulder"],
+  ["leftShoulder", "leftElbow"],
+  ["leftElbow", "leftWrist"],
+  ["rightShoulder", "rightElbow"],
+  ["rightElbow", "rightWrist"],
+  ["leftShoulder", "leftHip"],
+  ["rightShoulder", "rightHip"],
+  ["leftHip", "rightHip"],
+  ["leftHip", "leftKnee"],
+  ["leftKnee", "leftAnkle"],
+  ["rightHip", "rightKnee"],
+  ["rightKnee", "rightAnkle"],
+];
+
+export interface PoseDetector {
+  readonly backend: PoseBackendId;
+  // Everyone in frame (at most one person for single-pose models)
+  estimatePoses(input: HTMLVideoElement): Promise<PoseLike[]>;
+  dispose(): void;
+}
+
+// "left_shoulder" -> "leftShoulder"
+const toPartName = (name: string) => name.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+const PART_SET = new Set(KEYPOINT_PARTS);
+
+export const normalizeKeypoints = (keypoints: RawKeypoint[]): PoseKeypoint[] =>
+  keypoints
+    .filter((k) => k.name !== undefined && PART_SET.has(toPartName(k.name)))
+    .map((k) => ({
+      part: toPartName(k.name!),
+      score: k.score ?? 0,
+      position: { x: k.x, y: k.y },
+    }));
+
+// Loads the requested model. The pose-detection package is imported lazily so
+// it never runs during server rendering and only ships when the game starts.
+export const createPoseDetector = async (backend: PoseBackendId): Promise<PoseDetector> => {
+  const poseDetection = await import("@tensorflow-models/pose-detection");
+
+  let detector: RawPoseDetector;
+  if (backend === "posenet") {
+    detector = await poseDetection.createDetector(poseDetection.SupportedModels.PoseNet, {
+      architecture: "MobileNetV1",
+      outputStride: 16,
+      inputResolution: { width: 640, height: 420 },
+      multiplier: 0.75,
+    });
+  } else if (backend === "movenet-multipose") {
+    detector = await poseDetection.createDetector(poseDetection.SupportedModels.MoveNet, {
+      modelType: poseDetection.movenet.modelType.MULTIPOSE_LIGHTNING,
+      enableSmoothing: true,
+      enableTracking: true,
+    });
+  } else if (backend === "movenet-lightning" || backend === "movenet-thunder") {
+    detector = await poseDetection.createDetector(poseDetection.SupportedModels.MoveNet, {
+      modelType:
+        backend === "movenet-lightning"
+          ? poseDetection.movenet.modelType.SINGLEPOSE_LIGHTNING
+          : poseDetection.movenet.modelType.SINGLEPOSE_THUNDER,
+      enableSmoothing: true,
+    });
+  } else {
+    detector = await poseDetection.createDetector(poseDetection.SupportedModels.BlazePose, {
+      runtime: "tfjs",
+      modelType: "full",
+      enableSmoothing: true,
+    });
+  }
+
+  const maxPoses = POSE_BACKENDS[backend].multiPose ? MAX_TRACKED_POSES : 1;
+
+  return {
+    backend,
+    estimatePoses: async (input) => {
+      const poses = await detector.estimatePoses(input, { maxPoses, flipHorizontal: true });
+      return poses.map((pose) => ({ keypoints: normalizeKeypoints(pose.keypoints), score: pose.score }));
+    },
+    dispose: () => detector.dispose(),
+  };
+};
@@ -0,0 +1,133 @@
+import {
+  DETECTION_HEIGHT,
+  DETECTION_WIDTH,
+  getZoneKeypoints,
+  MIN_KEYPOINT_SCORE,
+  PoseLike,
+} from "./hit-detection";
+import { SKELETON_EDGES } from "./pose-detector";
+import type { HitZone } from "./weapons";
+
+// How often the tracking loop runs the pose detector (ms)
+export const POSE_TRACKING_INTERVAL_MS = 100;
+// Tracked poses older than this are stale and a shot falls back to fresh inference
+export const POSE_MAX_AGE_MS = 500;
+
+const ZONES: HitZone[] = ["head", "torso", "lowerBody"];
+const ZONE_PADDING = 12;
+
+const SKELETON_COLOR = "rgba(0, 255, 0, 0.8)";
+const BYSTANDER_COLOR = "rgba(160, 160, 160, 0.5)";
+const HITBOX_COLOR = "rgba(0, 150, 255, 0.6)";
+const HIGHLIGHT_STROKE = "rgba(255, 0, 0, 0.9)";
+const HIGHLIGHT_FILL = "rgba(255, 0, 0, 0.25)";
+
+export interface OverlayOptions {
+  // Index of the locked-on person in the poses array, if any
+  lockedIndex: number | null;
+  // Zone of the locked person currently under the crosshair, drawn highlighted
+  targetZone: HitZone | null;
+  hitRadius: number;
+}
+
+export const clearPoseOverlay = (ctx: CanvasRenderingContext2D) => {
+  ctx.clearRect(0, 0, DETECTION_WIDTH, DETECTION_HEIGHT);
+};
+
+const drawSkeleton = (ctx: CanvasRenderingContext2D, pose: PoseLike, color: string) => {
+  const visible = new Map(
+    pose.keypoints.filter((k) => k.score > MIN_KEYPOINT_SCORE).map((k) => [k.part, k.position] as const)
+  );
+
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  for (const [fromPart, toPart] of SKELETON_EDGES) {
+    const from = visible.get(fromPart);
+    const to = visible.get(toPart);
+    if (!from || !to) {
+      continue;
+    }
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  }
+
+  ctx.fillStyle = color;
+  for (const position of visible.values()) {
+    ctx.beginPath();
+    ctx.arc(position.x, position.y, 3, 0, Math.PI * 2);
+    ctx.fill();
+  }
+};
+
+// Draws a hitbox per body zone and returns the top edge of the person
+const drawHitboxes = (ctx: CanvasRenderingContext2D, pose: PoseLike, targetZone: HitZone | null) => {
+  let top = Infinity;
+  for (const zone of ZONES) {
+    const keypoints = getZoneKeypoints(pose, zone);
+    if (keypoints.length === 0) {
+      continue;
+    }
+    const xs = keypoints.map((k) => k.position.x);
+    const ys = keypoints.map((k) => k.position.y);
+    const x = Math.min(...xs) - ZONE_PADDING;
+    const y = Math.min(...ys) - ZONE_PADDING;
+    const width = Math.max(...xs) - Math.min(...xs) + ZONE_PADDING * 2;
+    const height = Math.max(...ys) - Math.min(...ys) + ZONE_PADDING * 2;
+    top = Math.min(top, y);
+
+    if (zone === targetZone) {
+      ctx.fillStyle = HIGHLIGHT_FILL;
+      ctx.fillRect(x, y, width, height);
+      ctx.strokeStyle = HIGHLIGHT_STROKE;
+      ctx.lineWidth = 3;
+    } else {
+      ctx.strokeStyle = HITBOX_COLOR;
+      ctx.lineWidth = 1;
+    }
+    ctx.strokeRect(x, y, width, height);
+  }
+  return top;
+};
+
+// Draws everyone the detector sees onto a 2D canvas laid over the AR view
+// (640x480 detection space). Bystanders get a dimmed skeleton; the locked
+// target gets zone hitboxes, the highlighted zone and a LOCK tag.
+export const drawPoseOverlay = (
+  ctx: CanvasRenderingContext2D,
+  poses: PoseLike[],
+  { lockedIndex, targetZone, hitRadius }: OverlayOptions
+) => {
+  clearPoseOverlay(ctx);
+
+  // Hit radius around the crosshair
+  ctx.strokeStyle = targetZone ? HIGHLIGHT_STROKE : "rgba(255, 255, 255, 0.25)";
+  ctx.lineWidth = 1;
+  ctx.setLineDash([4, 4]);
+  ctx.beginPath();
+  ctx.arc(DETECTION_WIDTH / 2, DETECTION_HEIGHT / 2, hitRadius, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  poses.forEach((pose, index) => {
+    if (index !== lockedIndex) {
+      drawSkeleton(ctx, pose, BYSTANDER_COLOR);
+    }
+  });
+
+  const locked = lockedIndex !== null ? poses[lockedIndex] : undefined;
+  if (!locked) {
+    return;
+  }
+  const top = drawHitboxes(ctx, locked, targetZone);
+  drawSkeleton(ctx, locked, SKELETON_COLOR);
+
+  const head = locked.keypoints.find((k) => k.part === "nose" && k.score > MIN_KEYPOINT_SCORE);
+  if (head && top !== Infinity) {
+    ctx.fillStyle = HIGHLIGHT_STROKE;
+    ctx.font = "bold 12px monospace";
+    ctx.textAlign = "center";
+    ctx.fillText("◆ LOCK", head.position.x, Math.max(12, top - 6));
+  }
+};
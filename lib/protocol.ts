@@ -0,0 +1,820 @@
+import type { Socket } from "socket.io-client";
+import {
+  GAME_MODES,
+  isGameMode,
+  isTeamId,
+  normalizeRoomSettings,
+  ROUND_OPTIONS,
+  RoomSettings,
+  TeamId,
+  TIME_LIMIT_OPTIONS,
+} from "./game-modes";
+import { DETECTION_HEIGHT, DETECTION_WIDTH, PoseKeypoint } from "./hit-detection";
+import { KEYPOINT_PARTS } from "./pose-detector";
+import type { ShotRecord } from "./shot-verification";
+import { HitZone, isHitZone, isWeaponId, WeaponId } from "./weapons";
+
+// Bump whenever an event name or payload shape changes on either side
+export const PROTOCOL_VERSION = 16;
+
+// First protocol version where the server schedules the ready-up countdown
+// itself. Older servers leave the client to run its own.
+export const SERVER_COUNTDOWN_VERSION = 13;
+
+// How long to wait for the server's "welcome" before assuming a legacy build
+export const HANDSHAKE_TIMEOUT_MS = 5000;
+
+export interface Player {
+  // Socket id - changes every time the player reconnects
+  id: string;
+  // Stable id for the player's seat, kept across reconnects. Older servers
+  // don't send one; use operatorKey() rather than reading it directly.
+  operatorId?: string;
+  health: number;
+  ready: boolean;
+  isHost?: boolean;
+  // Set by the server while the player's magazine is being refilled
+  reloading?: boolean;
+  // False while the player's connection is down and their seat is being held
+  connected?: boolean;
+  // Team mode only
+  team?: TeamId;
+}
+
+// Identity to compare players by: the stable operatorId, or the socket id on
+// servers that don't issue one
+export const operatorKey = (player: Player): string => player.operatorId ?? player.id;
+
+export interface RoomInfo {
+  error?: string;
+  code: string;
+  players: Player[];
+  createdAt: string;
+}
+
+export interface RoomCodePayload {
+  roomCode: string;
+}
+
+export interface RoomSessionPayload extends RoomCodePayload {
+  // Replayed with rejoinRoom to get the same seat back after a reconnect.
+  // Older servers don't issue one.
+  sessionToken?: string;
+  // Our own stable id in the room, see Player.operatorId
+  operatorId?: string;
+  // Older servers only run duels and don't send these
+  settings?: RoomSettings;
+}
+
+// Watching a room without a seat - no session, since there's nothing to hold
+export interface SpectatingPayload extends RoomCodePayload {
+  settings: RoomSettings;
+}
+
+export interface RoomRejoinedPayload extends RoomSessionPayload {
+  sessionToken: string;
+  operatorId: string;
+  isHost: boolean;
+}
+
+export interface ErrorPayload {
+  message: string;
+}
+
+export interface Placement {
+  // Operator key (see operatorKey) of the player
+  id: string;
+  // 1 for the winner, then in reverse order of elimination
+  place: number;
+}
+
+export interface RoundResult {
+  // 1-based
+  round: number;
+  // Operator key of the round winner
+  winner: string;
+  winningTeam?: TeamId;
+}
+
+// elimination: last player/team standing; timeout: most health when the clock
+// ran out; suddenDeath: first headshot after a tie on time; forfeit: a player
+// was gone longer than the pause allows
+export type GameOverReason = "elimination" | "timeout" | "suddenDeath" | "forfeit";
+
+const GAME_OVER_REASONS: GameOverReason[] = ["elimination", "timeout", "suddenDeath", "forfeit"];
+
+// Why a match is paused: the player's connection dropped, or their camera stopped
+export type PauseCause = "disconnected" | "camera";
+
+const PAUSE_CAUSES: PauseCause[] = ["disconnected", "camera"];
+
+export interface PauseInfo {
+  // Operator key of the player who's gone, see operatorKey()
+  operator: string;
+  cause: PauseCause;
+}
+
+export interface GameOverPayload {
+  // Socket id of the winner
+  winner: string;
+  winnerOperatorId?: string;
+  winnerIsHost: boolean;
+  // Full finishing order; older servers only send the winner
+  placements?: Placement[];
+  // Team mode only - the team with players still standing
+  winningTeam?: TeamId;
+  // Every round played so far, this one included. Older servers don't play rounds.
+  roundResults?: RoundResult[];
+  // False when this only ended a round and another one follows
+  matchOver?: boolean;
+  // Older servers only end matches by elimination and leave this out
+  reason?: GameOverReason;
+  // Who forfeited and why, when reason is "forfeit"
+  forfeit?: PauseInfo;
+}
+
+export interface MatchClockPayload {
+  // Server time the round's clock runs out (countdown included), null in sudden death
+  endsAt: number | null;
+  serverNow: number;
+  // Tied on time - only headshots count until someone lands one
+  suddenDeath: boolean;
+}
+
+// Sent once everyone is ready, and to late arrivals while it stands. Combat
+// starts for the whole room at startsAt; null calls off a countdown that
+// hasn't finished because someone stood down or left.
+export interface MatchStartPayload {
+  startsAt: number | null;
+  serverNow: number;
+}
+
+// Play is held until the player is back, and forfeited by them at forfeitAt
+// (server time). Play picks up again with a matchStart countdown.
+export interface MatchPausedPayload extends PauseInfo {
+  forfeitAt: number;
+  serverNow: number;
+}
+
+export interface RematchOptions {
+  // Everyone plays the next match with the weapon the player before them in
+  // the room had - in a duel, the two trade
+  swapWeapons: boolean;
+  // Team modes: every player moves to the other team
+  swapSides: boolean;
+}
+
+// Sent when a rematch is asked for, and again as players agree to it
+export interface RematchRequestedPayload extends RematchOptions {
+  // Operator keys, see operatorKey()
+  from: string;
+  // Everyone who has agreed so far, the player who asked included
+  accepted: string[];
+  // Server time the request lapses if not everyone has answered
+  expiresAt: number;
+  serverNow: number;
+}
+
+// declined: someone said no; timeout: not everyone answered in time; left:
+// someone left the room, so there's nobody to play
+export type RematchCancelReason = "declined" | "timeout" | "left";
+
+const REMATCH_CANCEL_REASONS: RematchCancelReason[] = ["declined", "timeout", "left"];
+
+export interface RematchCancelledPayload {
+  reason: RematchCancelReason;
+  // Who declined or left
+  by?: string;
+}
+
+// Everyone agreed: the room is back in the briefing for the next match
+export interface RematchAcceptedPayload extends RematchOptions {
+  // Operator key -> the weapon to pick up for the rematch
+  weapons: Record<string, WeaponId>;
+}
+
+// The host left and the room passed to someone else
+export interface HostChangedPayload {
+  // Operator key of the new host, see operatorKey()
+  host: string;
+}
+
+// The host changed the room's settings in the briefing
+export interface SettingsChangedPayload {
+  settings: RoomSettings;
+}
+
+// Reply to timeSync, for working out the offset between client and server clocks
+export interface TimeSyncAckPayload {
+  // Echoed back so the client can measure the round trip
+  clientSentAt: number;
+  serverNow: number;
+}
+
+// Sent to everyone else in the room for every shot the server accepts, hit or
+// miss. Hits are followed by a playerHit.
+export interface ShotFiredPayload {
+  shooter: string;
+  weapon: WeaponId;
+}
+
+// Sent to the whole room for every shot that lands
+export interface PlayerHitPayload {
+  // Operator keys, see operatorKey()
+  shooter: string;
+  target: string;
+  weapon: WeaponId;
+  zone: HitZone;
+  damage: number;
+  // Target's health after the hit
+  health: number;
+}
+
+export interface HeartbeatAckPayload {
+  roomCode: string | null;
+  playerId: string;
+}
+
+export interface WelcomePayload {
+  protocolVersion: number;
+}
+
+export interface ServerToClientEvents {
+  welcome: (payload: WelcomePayload) => void;
+  roomCreated: (payload: RoomSessionPayload) => void;
+  roomJoined: (payload: RoomSessionPayload) => void;
+  roomRejoined: (payload: RoomRejoinedPayload) => void;
+  rejoinError: (payload: ErrorPayload) => void;
+  joinError: (payload: ErrorPayload) => void;
+  spectating: (payload: SpectatingPayload) => void;
+  spectateError: (payload: ErrorPayload) => void;
+  roomInfo: (info: RoomInfo) => void;
+  gameFull: () => void;
+  playerUpdate: (players: Player[]) => void;
+  hostChanged: (payload: HostChangedPayload) => void;
+  // Too few players are left for the match to go on; the room is back in the
+  // briefing, waiting for new opponents
+  matchAbandoned: () => void;
+  settingsChanged: (payload: SettingsChangedPayload) => void;
+  settingsError: (payload: ErrorPayload) => void;
+  gameOver: (payload: GameOverPayload) => void;
+  setReadyError: (payload: ErrorPayload) => void;
+  setTeamError: (payload: ErrorPayload) => void;
+  heartbeatAck: (payload: HeartbeatAckPayload) => void;
+  matchClock: (payload: MatchClockPayload) => void;
+  matchStart: (payload: MatchStartPayload) => void;
+  matchPaused: (payload: MatchPausedPayload) => void;
+  rematchRequested: (payload: RematchRequestedPayload) => void;
+  rematchAccepted: (payload: RematchAcceptedPayload) => void;
+  rematchCancelled: (payload: RematchCancelledPayload) => void;
+  rematchError: (payload: ErrorPayload) => void;
+  timeSyncAck: (payload: TimeSyncAckPayload) => void;
+  playerHit: (payload: PlayerHitPayload) => void;
+  shotFired: (payload: ShotFiredPayload) => void;
+}
+
+export interface ClientToServerEvents {
+  hello: (payload: { protocolVersion: number }) => void;
+  createRoom: (settings?: RoomSettings) => void;
+  joinRoom: (payload: RoomCodePayload) => void;
+  rejoinRoom: (payload: { sessionToken: string }) => void;
+  spectateRoom: (payload: RoomCodePayload) => void;
+  joinGame: () => void;
+  getRoomInfo: (payload: RoomCodePayload) => void;
+  setReady: (payload: { playerId: string; ready: boolean; isHost: boolean }) => void;
+  setTeam: (payload: { team: TeamId }) => void;
+  // Host only, in the briefing before the match starts
+  updateSettings: (settings: RoomSettings) => void;
+  shoot: (payload: ShotRecord) => void;
+  reload: (payload: { weapon: WeaponId }) => void;
+  // weapon is what we're carrying now, for swapWeapons
+  requestRematch: (payload: RematchOptions & { weapon: WeaponId }) => void;
+  answerRematch: (payload: { accept: boolean; weapon: WeaponId }) => void;
+  leaveRoom: () => void;
+  heartbeat: () => void;
+  timeSync: (payload: { clientSentAt: number }) => void;
+  // Whether our camera is running; a failure mid-match pauses it
+  cameraStatus: (payload: { ok: boolean }) => void;
+}
+
+export type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+type ServerEvent = keyof ServerToClientEvents;
+type ServerPayload<E extends ServerEvent> = Parameters<ServerToClientEvents[E]>[0];
+export type ClientEvent = keyof ClientToServerEvents;
+export type ClientPayload<E extends ClientEvent> = Parameters<ClientToServerEvents[E]>[0];
+
+// Thrown when a payload doesn't match what this build of the protocol expects
+export class ProtocolError extends Error {
+  constructor(public readonly event: string, message: string) {
+    super(`Invalid "${event}" payload: ${message}`);
+    this.name = "ProtocolError";
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const expectRecord = (event: string, value: unknown, path = "payload"): Record<string, unknown> => {
+  if (!isRecord(value)) {
+    throw new ProtocolError(event, `${path} must be an object`);
+  }
+  return value;
+};
+
+const expectString = (event: string, value: unknown, path: string): string => {
+  if (typeof value !== "string") {
+    throw new ProtocolError(event, `${path} must be a string`);
+  }
+  return value;
+};
+
+const expectNumber = (event: string, value: unknown, path: string): number => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new ProtocolError(event, `${path} must be a finite number`);
+  }
+  return value;
+};
+
+const expectBoolean = (event: string, value: unknown, path: string): boolean => {
+  if (typeof value !== "boolean") {
+    throw new ProtocolError(event, `${path} must be a boolean`);
+  }
+  return value;
+};
+
+const expectTeam = (event: string, value: unknown, path: string): TeamId => {
+  if (!isTeamId(value)) {
+    throw new ProtocolError(event, `${path} must be a known team`);
+  }
+  return value;
+};
+
+const expectZone = (event: string, value: unknown, path: string): HitZone => {
+  if (!isHitZone(value)) {
+    throw new ProtocolError(event, `${path} must be a hit zone`);
+  }
+  return value;
+};
+
+const parsePlayer = (event: string, value: unknown, path: string): Player => {
+  const raw = expectRecord(event, value, path);
+  const health = expectNumber(event, raw.health, `${path}.health`);
+  if (health < 0 || health > 100) {
+    throw new ProtocolError(event, `${path}.health must be between 0 and 100`);
+  }
+  return {
+    id: expectString(event, raw.id, `${path}.id`),
+    operatorId: raw.operatorId === undefined ? undefined : expectString(event, raw.operatorId, `${path}.operatorId`),
+    health,
+    ready: expectBoolean(event, raw.ready, `${path}.ready`),
+    isHost: raw.isHost === undefined ? undefined : expectBoolean(event, raw.isHost, `${path}.isHost`),
+    reloading: raw.reloading === undefined ? undefined : expectBoolean(event, raw.reloading, `${path}.reloading`),
+    connected: raw.connected === undefined ? undefined : expectBoolean(event, raw.connected, `${path}.connected`),
+    team: raw.team === undefined ? undefined : expectTeam(event, raw.team, `${path}.team`),
+  };
+};
+
+const parsePlayers = (event: string, value: unknown, path: string): Player[] => {
+  if (!Array.isArray(value)) {
+    throw new ProtocolError(event, `${path} must be an array`);
+  }
+  return value.map((player, index) => parsePlayer(event, player, `${path}[${index}]`));
+};
+
+const expectRounds = (event: string, value: unknown): number => {
+  const rounds = expectNumber(event, value, "settings.rounds");
+  if (!ROUND_OPTIONS.includes(rounds)) {
+    throw new ProtocolError(event, `settings.rounds must be one of ${ROUND_OPTIONS.join(", ")}`);
+  }
+  return rounds;
+};
+
+const expectTimeLimit = (event: string, value: unknown): number => {
+  const minutes = expectNumber(event, value, "settings.timeLimitMinutes");
+  if (!TIME_LIMIT_OPTIONS.includes(minutes)) {
+    throw new ProtocolError(event, `settings.timeLimitMinutes must be one of ${TIME_LIMIT_OPTIONS.join(", ")}`);
+  }
+  return minutes;
+};
+
+const parseRoundResults = (event: string, value: unknown): RoundResult[] => {
+  if (!Array.isArray(value)) {
+    throw new ProtocolError(event, "roundResults must be an array");
+  }
+  return value.map((entry, index) => {
+    const path = `roundResults[${index}]`;
+    const raw = expectRecord(event, entry, path);
+    return {
+      round: expectNumber(event, raw.round, `${path}.round`),
+      winner: expectString(event, raw.winner, `${path}.winner`),
+      winningTeam: raw.winningTeam === undefined ? undefined : expectTeam(event, raw.winningTeam, `${path}.winningTeam`),
+    };
+  });
+};
+
+const expectReason = (value: unknown): GameOverReason => {
+  if (!GAME_OVER_REASONS.includes(value as GameOverReason)) {
+    throw new ProtocolError("gameOver", `reason must be one of ${GAME_OVER_REASONS.join(", ")}`);
+  }
+  return value as GameOverReason;
+};
+
+const parsePauseInfo = (event: string, value: unknown, path = "payload"): PauseInfo => {
+  const raw = expectRecord(event, value, path);
+  if (!PAUSE_CAUSES.includes(raw.cause as PauseCause)) {
+    throw new ProtocolError(event, `${path}.cause must be one of ${PAUSE_CAUSES.join(", ")}`);
+  }
+  return { operator: expectString(event, raw.operator, `${path}.operator`), cause: raw.cause as PauseCause };
+};
+
+const parseRoomSettings = (event: string, value: unknown): RoomSettings => {
+  const raw = expectRecord(event, value, "settings");
+  if (!isGameMode(raw.mode)) {
+    throw new ProtocolError(event, "settings.mode must be a known game mode");
+  }
+  const maxPlayers = expectNumber(event, raw.maxPlayers, "settings.maxPlayers");
+  const { minPlayers, maxPlayers: limit, teams } = GAME_MODES[raw.mode];
+  if (!Number.isInteger(maxPlayers) || maxPlayers < minPlayers || maxPlayers > limit) {
+    throw new ProtocolError(event, `settings.maxPlayers must be between ${minPlayers} and ${limit} for ${raw.mode}`);
+  }
+  if (teams && maxPlayers % 2 !== 0) {
+    throw new ProtocolError(event, "settings.maxPlayers must be even for team modes");
+  }
+  return {
+    mode: raw.mode,
+    maxPlayers,
+    friendlyFire: raw.friendlyFire === undefined ? undefined : expectBoolean(event, raw.friendlyFire, "settings.friendlyFire"),
+    rounds: raw.rounds === undefined ? undefined : expectRounds(event, raw.rounds),
+    timeLimitMinutes: raw.timeLimitMinutes === undefined ? undefined : expectTimeLimit(event, raw.timeLimitMinutes),
+  };
+};
+
+const parseRoomSession = (event: string, value: unknown): RoomSessionPayload => {
+  const raw = expectRecord(event, value);
+  return {
+    roomCode: expectString(event, raw.roomCode, "roomCode"),
+    sessionToken: raw.sessionToken === undefined ? undefined : expectString(event, raw.sessionToken, "sessionToken"),
+    operatorId: raw.operatorId === undefined ? undefined : expectString(event, raw.operatorId, "operatorId"),
+    settings: raw.settings === undefined ? undefined : parseRoomSettings(event, raw.settings),
+  };
+};
+
+const parsePlacements = (event: string, value: unknown): Placement[] => {
+  if (!Array.isArray(value)) {
+    throw new ProtocolError(event, "placements must be an array");
+  }
+  return value.map((entry, index) => {
+    const raw = expectRecord(event, entry, `placements[${index}]`);
+    return {
+      id: expectString(event, raw.id, `placements[${index}].id`),
+      place: expectNumber(event, raw.place, `placements[${index}].place`),
+    };
+  });
+};
+
+const parseErrorMessage = (event: string, value: unknown): ErrorPayload => {
+  const raw = expectRecord(event, value);
+  return { message: expectString(event, raw.message, "message") };
+};
+
+const parseRematchOptions = (event: string, raw: Record<string, unknown>): RematchOptions => ({
+  swapWeapons: expectBoolean(event, raw.swapWeapons, "swapWeapons"),
+  swapSides: expectBoolean(event, raw.swapSides, "swapSides"),
+});
+
+// Runtime validators for everything the server can send us. Each one either
+// returns a well-typed payload or throws a ProtocolError.
+const parsers: { [E in ServerEvent]: (payload: unknown) => ServerPayload<E> } = {
+  welcome: (payload) => {
+    const raw = expectRecord("welcome", payload);
+    return { protocolVersion: expectNumber("welcome", raw.protocolVersion, "protocolVersion") };
+  },
+  roomCreated: (payload) => parseRoomSession("roomCreated", payload),
+  roomJoined: (payload) => parseRoomSession("roomJoined", payload),
+  roomRejoined: (payload) => {
+    const raw = expectRecord("roomRejoined", payload);
+    return {
+      ...parseRoomSession("roomRejoined", payload),
+      sessionToken: expectString("roomRejoined", raw.sessionToken, "sessionToken"),
+      operatorId: expectString("roomRejoined", raw.operatorId, "operatorId"),
+      isHost: expectBoolean("roomRejoined", raw.isHost, "isHost"),
+    };
+  },
+  joinError: (payload) => parseErrorMessage("joinError", payload),
+  rejoinError: (payload) => parseErrorMessage("rejoinError", payload),
+  spectating: (payload) => {
+    const raw = expectRecord("spectating", payload);
+    return {
+      roomCode: expectString("spectating", raw.roomCode, "roomCode"),
+      settings: parseRoomSettings("spectating", raw.settings),
+    };
+  },
+  spectateError: (payload) => parseErrorMessage("spectateError", payload),
+  setReadyError: (payload) => parseErrorMessage("setReadyError", payload),
+  setTeamError: (payload) => parseErrorMessage("setTeamError", payload),
+  rematchError: (payload) => parseErrorMessage("rematchError", payload),
+  rematchRequested: (payload) => {
+    const raw = expectRecord("rematchRequested", payload);
+    if (!Array.isArray(raw.accepted)) {
+      throw new ProtocolError("rematchRequested", "accepted must be an array");
+    }
+    return {
+      ...parseRematchOptions("rematchRequested", raw),
+      from: expectString("rematchRequested", raw.from, "from"),
+      accepted: raw.accepted.map((operator, index) => expectString("rematchRequested", operator, `accepted[${index}]`)),
+      expiresAt: expectNumber("rematchRequested", raw.expiresAt, "expiresAt"),
+      serverNow: expectNumber("rematchRequested", raw.serverNow, "serverNow"),
+    };
+  },
+  rematchAccepted: (payload) => {
+    const raw = expectRecord("rematchAccepted", payload);
+    const weapons = expectRecord("rematchAccepted", raw.weapons, "weapons");
+    Object.entries(weapons).forEach(([operator, weapon]) => {
+      if (!isWeaponId(weapon)) {
+        throw new ProtocolError("rematchAccepted", `weapons.${operator} must be a known weapon id`);
+      }
+    });
+    return { ...parseRematchOptions("rematchAccepted", raw), weapons: weapons as Record<string, WeaponId> };
+  },
+  rematchCancelled: (payload) => {
+    const raw = expectRecord("rematchCancelled", payload);
+    if (!REMATCH_CANCEL_REASONS.includes(raw.reason as RematchCancelReason)) {
+      throw new ProtocolError("rematchCancelled", `reason must be one of ${REMATCH_CANCEL_REASONS.join(", ")}`);
+    }
+    return {
+      reason: raw.reason as RematchCancelReason,
+      by: raw.by === undefined ? undefined : expectString("rematchCancelled", raw.by, "by"),
+    };
+  },
+  roomInfo: (payload) => {
+    const raw = expectRecord("roomInfo", payload);
+    // Missing rooms come back as { error } with nothing else filled in
+    if (raw.error !== undefined) {
+      return {
+        error: expectString("roomInfo", raw.error, "error"),
+        code: typeof raw.code === "string" ? raw.code : "",
+        players: [],
+        createdAt: "",
+      };
+    }
+    return {
+      code: expectString("roomInfo", raw.code, "code"),
+      players: parsePlayers("roomInfo", raw.players, "players"),
+      createdAt: String(raw.createdAt ?? ""),
+    };
+  },
+  gameFull: () => undefined,
+  hostChanged: (payload) => {
+    const raw = expectRecord("hostChanged", payload);
+    return { host: expectString("hostChanged", raw.host, "host") };
+  },
+  matchAbandoned: () => undefined,
+  settingsChanged: (payload) => ({
+    settings: parseRoomSettings("settingsChanged", expectRecord("settingsChanged", payload).settings),
+  }),
+  settingsError: (payload) => parseErrorMessage("settingsError", payload),
+  playerUpdate: (payload) => parsePlayers("playerUpdate", payload, "players"),
+  gameOver: (payload) => {
+    const raw = expectRecord("gameOver", payload);
+    return {
+      winner: expectString("gameOver", raw.winner, "winner"),
+      winnerOperatorId:
+        raw.winnerOperatorId === undefined ? undefined : expectString("gameOver", raw.winnerOperatorId, "winnerOperatorId"),
+      winnerIsHost: expectBoolean("gameOver", raw.winnerIsHost, "winnerIsHost"),
+      placements: raw.placements === undefined ? undefined : parsePlacements("gameOver", raw.placements),
+      winningTeam: raw.winningTeam === undefined ? undefined : expectTeam("gameOver", raw.winningTeam, "winningTeam"),
+      roundResults: raw.roundResults === undefined ? undefined : parseRoundResults("gameOver", raw.roundResults),
+      matchOver: raw.matchOver === undefined ? undefined : expectBoolean("gameOver", raw.matchOver, "matchOver"),
+      reason: raw.reason === undefined ? undefined : expectReason(raw.reason),
+      forfeit: raw.forfeit === undefined ? undefined : parsePauseInfo("gameOver", raw.forfeit, "forfeit"),
+    };
+  },
+  playerHit: (payload) => {
+    const raw = expectRecord("playerHit", payload);
+    if (!isWeaponId(raw.weapon)) {
+      throw new ProtocolError("playerHit", "weapon must be a known weapon id");
+    }
+    return {
+      shooter: expectString("playerHit", raw.shooter, "shooter"),
+      target: expectString("playerHit", raw.target, "target"),
+      weapon: raw.weapon,
+      zone: expectZone("playerHit", raw.zone, "zone"),
+      damage: expectNumber("playerHit", raw.damage, "damage"),
+      health: expectNumber("playerHit", raw.health, "health"),
+    };
+  },
+  shotFired: (payload) => {
+    const raw = expectRecord("shotFired", payload);
+    if (!isWeaponId(raw.weapon)) {
+      throw new ProtocolError("shotFired", "weapon must be a known weapon id");
+    }
+    return { shooter: expectString("shotFired", raw.shooter, "shooter"), weapon: raw.weapon };
+  },
+  matchClock: (payload) => {
+    const raw = expectRecord("matchClock", payload);
+    return {
+      endsAt: raw.endsAt === null ? null : expectNumber("matchClock", raw.endsAt, "endsAt"),
+      serverNow: expectNumber("matchClock", raw.serverNow, "serverNow"),
+      suddenDeath: expectBoolean("matchClock", raw.suddenDeath, "suddenDeath"),
+    };
+  },
+  matchStart: (payload) => {
+    const raw = expectRecord("matchStart", payload);
+    return {
+      startsAt: raw.startsAt === null ? null : expectNumber("matchStart", raw.startsAt, "startsAt"),
+      serverNow: expectNumber("matchStart", raw.serverNow, "serverNow"),
+    };
+  },
+  matchPaused: (payload) => {
+    const raw = expectRecord("matchPaused", payload);
+    return {
+      ...parsePauseInfo("matchPaused", raw),
+      forfeitAt: expectNumber("matchPaused", raw.forfeitAt, "forfeitAt"),
+      serverNow: expectNumber("matchPaused", raw.serverNow, "serverNow"),
+    };
+  },
+  timeSyncAck: (payload) => {
+    const raw = expectRecord("timeSyncAck", payload);
+    return {
+      clientSentAt: expectNumber("timeSyncAck", raw.clientSentAt, "clientSentAt"),
+      serverNow: expectNumber("timeSyncAck", raw.serverNow, "serverNow"),
+    };
+  },
+  heartbeatAck: (payload) => {
+    const raw = expectRecord("heartbeatAck", payload);
+    return {
+      roomCode: raw.roomCode === null ? null : expectString("heartbeatAck", raw.roomCode, "roomCode"),
+      playerId: expectString("heartbeatAck", raw.playerId, "playerId"),
+    };
+  },
+};
+
+export const parseServerEvent = <E extends ServerEvent>(event: E, payload: unknown): ServerPayload<E> =>
+  parsers[event](payload);
+
+// Subscribe to a server event with runtime validation. Malformed payloads are
+// reported through onError and never reach the handler.
+export const listen = <E extends ServerEvent>(
+  socket: GameSocket,
+  event: E,
+  handler: (payload: ServerPayload<E>) => void,
+  onError: (error: ProtocolError) => void
+) => {
+  const listener = (payload: unknown) => {
+    let parsed: ServerPayload<E>;
+    try {
+      parsed = parseServerEvent(event, payload);
+    } catch (err) {
+      if (err instanceof ProtocolError) {
+        onError(err);
+        return;
+      }
+      throw err;
+    }
+    handler(parsed);
+  };
+  // socket.io's typed `on` can't narrow a generic event name, so go untyped here
+  (socket as unknown as Socket).on(event as string, listener);
+  return () => {
+    (socket as unknown as Socket).off(event as string, listener);
+  };
+};
+
+export const checkProtocolVersion = (serverVersion: number): string | null => {
+  if (serverVersion === PROTOCOL_VERSION) {
+    return null;
+  }
+  return serverVersion > PROTOCOL_VERSION
+    ? `Server is running protocol v${serverVersion} but this client only speaks v${PROTOCOL_VERSION}. Please refresh to get the latest version.`
+    : `Server is running an older protocol (v${serverVersion}, client v${PROTOCOL_VERSION}). Some features may not work until the server is updated.`;
+};
+
+// Binds listen() to one socket and error sink so call sites read like socket.on
+export const createValidatedListener =
+  (socket: GameSocket, onError: (error: ProtocolError) => void) =>
+  <E extends ServerEvent>(event: E, handler: (payload: ServerPayload<E>) => void) =>
+    listen(socket, event, handler, onError);
+
+// Keypoints may sit a little outside the frame, but not arbitrarily far
+const KEYPOINT_MARGIN = 100;
+
+const parseKeypoint = (value: unknown, path: string): PoseKeypoint => {
+  const raw = expectRecord("shoot", value, path);
+  const part = expectString("shoot", raw.part, `${path}.part`);
+  if (!KEYPOINT_PARTS.includes(part)) {
+    throw new ProtocolError("shoot", `${path}.part "${part}" is not a known keypoint`);
+  }
+  const score = expectNumber("shoot", raw.score, `${path}.score`);
+  if (score < 0 || score > 1) {
+    throw new ProtocolError("shoot", `${path}.score must be between 0 and 1`);
+  }
+  const position = expectRecord("shoot", raw.position, `${path}.position`);
+  const x = expectNumber("shoot", position.x, `${path}.position.x`);
+  const y = expectNumber("shoot", position.y, `${path}.position.y`);
+  if (
+    x < -KEYPOINT_MARGIN ||
+    x > DETECTION_WIDTH + KEYPOINT_MARGIN ||
+    y < -KEYPOINT_MARGIN ||
+    y > DETECTION_HEIGHT + KEYPOINT_MARGIN
+  ) {
+    throw new ProtocolError("shoot", `${path}.position is outside the detection area`);
+  }
+  return { part, score, position: { x, y } };
+};
+
+// Servers run this on every incoming "shoot" before trusting any of it
+export const parseShotRecord = (payload: unknown): ShotRecord => {
+  const raw = expectRecord("shoot", payload);
+  if (!isWeaponId(raw.weapon)) {
+    throw new ProtocolError("shoot", "weapon must be a known weapon id");
+  }
+  const crosshair = expectRecord("shoot", raw.crosshair, "crosshair");
+  if (!Array.isArray(raw.keypoints)) {
+    throw new ProtocolError("shoot", "keypoints must be an array");
+  }
+  const keypoints = raw.keypoints.map((k, index) => parseKeypoint(k, `keypoints[${index}]`));
+  if (new Set(keypoints.map((k) => k.part)).size !== keypoints.length) {
+    throw new ProtocolError("shoot", "keypoints must not repeat a part");
+  }
+  const clientZone = raw.clientZone;
+  if (clientZone !== null && !isHitZone(clientZone)) {
+    throw new ProtocolError("shoot", "clientZone must be a hit zone or null");
+  }
+  return {
+    weapon: raw.weapon,
+    capturedAt: expectNumber("shoot", raw.capturedAt, "capturedAt"),
+    firedAt: expectNumber("shoot", raw.firedAt, "firedAt"),
+    crosshair: {
+      centerX: expectNumber("shoot", crosshair.centerX, "crosshair.centerX"),
+      centerY: expectNumber("shoot", crosshair.centerY, "crosshair.centerY"),
+      radius: expectNumber("shoot", crosshair.radius, "crosshair.radius"),
+    },
+    keypoints,
+    poseScore: expectNumber("shoot", raw.poseScore, "poseScore"),
+    clientZone,
+    targetId: raw.targetId === undefined ? undefined : expectString("shoot", raw.targetId, "targetId"),
+  };
+};
+
+const expectWeapon = (event: string, value: unknown, path = "weapon"): WeaponId => {
+  if (!isWeaponId(value)) {
+    throw new ProtocolError(event, `${path} must be a known weapon id`);
+  }
+  return value;
+};
+
+const parseRoomCode = (event: string, payload: unknown): RoomCodePayload => ({
+  roomCode: expectString(event, expectRecord(event, payload).roomCode, "roomCode"),
+});
+
+// The server's side of parsers: everything a client can send, checked before
+// any handler sees it
+const clientParsers: { [E in ClientEvent]: (payload: unknown) => ClientPayload<E> } = {
+  hello: (payload) => ({
+    protocolVersion: expectNumber("hello", expectRecord("hello", payload).protocolVersion, "protocolVersion"),
+  }),
+  // Anything that isn't a valid set of settings gets the defaults
+  createRoom: (payload) => normalizeRoomSettings(payload),
+  joinRoom: (payload) => parseRoomCode("joinRoom", payload),
+  rejoinRoom: (payload) => ({
+    sessionToken: expectString("rejoinRoom", expectRecord("rejoinRoom", payload).sessionToken, "sessionToken"),
+  }),
+  spectateRoom: (payload) => parseRoomCode("spectateRoom", payload),
+  joinGame: () => undefined,
+  getRoomInfo: (payload) => parseRoomCode("getRoomInfo", payload),
+  setReady: (payload) => {
+    const raw = expectRecord("setReady", payload);
+    return {
+      playerId: expectString("setReady", raw.playerId, "playerId"),
+      ready: expectBoolean("setReady", raw.ready, "ready"),
+      isHost: expectBoolean("setReady", raw.isHost, "isHost"),
+    };
+  },
+  setTeam: (payload) => ({ team: expectTeam("setTeam", expectRecord("setTeam", payload).team, "team") }),
+  // Unlike createRoom, a change that doesn't parse is dropped rather than reset to a duel
+  updateSettings: (payload) => normalizeRoomSettings(parseRoomSettings("updateSettings", payload)),
+  shoot: (payload) => parseShotRecord(payload),
+  reload: (payload) => ({ weapon: expectWeapon("reload", expectRecord("reload", payload).weapon) }),
+  requestRematch: (payload) => {
+    const raw = expectRecord("requestRematch", payload);
+    return { ...parseRematchOptions("requestRematch", raw), weapon: expectWeapon("requestRematch", raw.weapon) };
+  },
+  answerRematch: (payload) => {
+    const raw = expectRecord("answerRematch", payload);
+    return {
+      accept: expectBoolean("answerRematch", raw.accept, "accept"),
+      weapon: expectWeapon("answerRematch", raw.weapon),
+    };
+  },
+  leaveRoom: () => undefined,
+  heartbeat: () => undefined,
+  timeSync: (payload) => ({
+    clientSentAt: expectNumber("timeSync", expectRecord("timeSync", payload).clientSentAt, "clientSentAt"),
+  }),
+  cameraStatus: (payload) => ({ ok: expectBoolean("cameraStatus", expectRecord("cameraStatus", payload).ok, "ok") }),
+};
+
+// Throws a ProtocolError if the payload isn't what the client should have sent
+export const parseClientEvent = <E extends ClientEvent>(event: E, payload: unknown): ClientPayload<E> =>
+  clientParsers[event](payload);
@@ -0,0 +1,35 @@
+// The session token the server issues on create/join, kept client-side so a
+// dropped connection (or a page reload) can reattach to the same seat.
+// sessionStorage keeps it per tab, so two tabs on one machine stay two players.
+export interface RoomSession {
+  sessionToken: string;
+  roomCode: string;
+}
+
+export const ROOM_SESSION_STORAGE_KEY = "d3athsync:roomSession";
+
+export const saveRoomSession = (session: RoomSession) => {
+  sessionStorage.setItem(ROOM_SESSION_STORAGE_KEY, JSON.stringify(session));
+};
+
+export const loadRoomSession = (): RoomSession | null => {
+  try {
+    const saved: unknown = JSON.parse(sessionStorage.getItem(ROOM_SESSION_STORAGE_KEY) ?? "null");
+    if (
+      typeof saved === "object" &&
+      saved !== null &&
+      typeof (saved as RoomSession).sessionToken === "string" &&
+      typeof (saved as RoomSession).roomCode === "string"
+    ) {
+      return saved as RoomSession;
+    }
+  } catch {
+    // Corrupt entry - fall through and forget it
+  }
+  clearRoomSession();
+  return null;
+};
+
+export const clearRoomSession = () => {
+  sessionStorage.removeItem(ROOM_SESSION_STORAGE_KEY);
+};
@@ -0,0 +1,84 @@
+// Shot records and the rules a server uses to re-check them. The client sends
+// what it saw; the server recomputes the hit with the same detectHit rules and
+// decides the damage itself.
+import {
+  crosshairForWeapon,
+  CrosshairGeometry,
+  detectHit,
+  HitResult,
+  MISS,
+  PoseKeypoint,
+} from "./hit-detection";
+import { getWeapon, HitZone, WeaponId } from "./weapons";
+
+export interface ShotRecord {
+  weapon: WeaponId;
+  // Client clock (ms) when the pose used for the shot was captured
+  capturedAt: number;
+  // Client clock (ms) when the trigger was pulled
+  firedAt: number;
+  crosshair: CrosshairGeometry;
+  // Keypoints of the locked target, empty when nobody was locked
+  keypoints: PoseKeypoint[];
+  poseScore: number;
+  // What the client thinks it hit - informational only
+  clientZone: HitZone | null;
+  // Operator key of the player being aimed at. The camera can't tell players
+  // apart, so with more than one opponent alive the shooter has to pick.
+  targetId?: string;
+}
+
+// Cooldown is allowed to come in a little early to absorb network jitter
+export const COOLDOWN_TOLERANCE = 0.8;
+// The pose must have been captured shortly before the trigger pull
+export const MAX_POSE_AGE_MS = 2000;
+
+export interface ShotVerdict {
+  accepted: boolean;
+  // Why the shot was rejected, or a note about a disagreement with the client
+  reason?: string;
+  zone: HitZone | null;
+  damage: number;
+  result: HitResult;
+}
+
+const reject = (reason: string): ShotVerdict => ({ accepted: false, reason, zone: null, damage: 0, result: MISS });
+
+// lastShotAt/now are on the server clock; capturedAt/firedAt only get compared
+// with each other since the two clocks aren't in sync.
+export const verifyShot = (record: ShotRecord, { lastShotAt, now }: { lastShotAt: number | null; now: number }): ShotVerdict => {
+  const weapon = getWeapon(record.weapon);
+
+  if (lastShotAt !== null && now - lastShotAt < weapon.cooldownMs * COOLDOWN_TOLERANCE) {
+    return reject(`fired ${now - lastShotAt}ms after the last shot, ${weapon.name} cooldown is ${weapon.cooldownMs}ms`);
+  }
+
+  const poseAge = record.firedAt - record.capturedAt;
+  if (poseAge < 0 || poseAge > MAX_POSE_AGE_MS) {
+    return reject(`pose was captured ${poseAge}ms before firing`);
+  }
+
+  // Always judge against the weapon's real crosshair, never the client's
+  const crosshair = crosshairForWeapon(weapon);
+  const result = record.keypoints.length ? detectHit({ keypoints: record.keypoints }, weapon, crosshair) : MISS;
+
+  const notes: string[] = [];
+  if (
+    record.crosshair.centerX !== crosshair.centerX ||
+    record.crosshair.centerY !== crosshair.centerY ||
+    record.crosshair.radius !== crosshair.radius
+  ) {
+    notes.push("client crosshair differs from weapon spec");
+  }
+  if (record.clientZone !== result.zone) {
+    notes.push(`client claimed ${record.clientZone ?? "miss"}, server computed ${result.zone ?? "miss"}`);
+  }
+
+  return {
+    accepted: true,
+    reason: notes.length ? notes.join("; ") : undefined,
+    zone: result.zone,
+    damage: result.damage,
+    result,
+  };
+};
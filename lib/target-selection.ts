@@ -0,0 +1,72 @@
+// Picks which detected person a shot is aimed at when several are in frame.
+import {
+  CrosshairGeometry,
+  detectHit,
+  HitResult,
+  MIN_KEYPOINT_SCORE,
+  PoseLike,
+} from "./hit-detection";
+import type { WeaponDefinition } from "./weapons";
+
+// People below this overall confidence are never locked on to
+export const MIN_TARGET_CONFIDENCE = 0.3;
+
+export interface TargetLock {
+  // Index into the poses array that was passed in
+  index: number;
+  pose: PoseLike;
+  // Distance from the crosshair centre to the person's nearest keypoint
+  distance: number;
+  confidence: number;
+  hit: HitResult;
+}
+
+export const poseConfidence = (pose: PoseLike): number => {
+  if (pose.score !== undefined) {
+    return pose.score;
+  }
+  return pose.keypoints.length ? pose.keypoints.reduce((sum, k) => sum + k.score, 0) / pose.keypoints.length : 0;
+};
+
+const distanceToCrosshair = (pose: PoseLike, crosshair: CrosshairGeometry) =>
+  pose.keypoints
+    .filter((k) => k.score > MIN_KEYPOINT_SCORE)
+    .reduce(
+      (nearest, k) => Math.min(nearest, Math.hypot(k.position.x - crosshair.centerX, k.position.y - crosshair.centerY)),
+      Infinity
+    );
+
+// Scores every detected person against the crosshair and locks on to the one
+// closest to its centre. Returns null when nobody is confident enough.
+export const selectTarget = (
+  poses: PoseLike[],
+  weapon: Pick<WeaponDefinition, "damage">,
+  crosshair: CrosshairGeometry
+): TargetLock | null => {
+  let best: TargetLock | null = null;
+  poses.forEach((pose, index) => {
+    const confidence = poseConfidence(pose);
+    if (confidence < MIN_TARGET_CONFIDENCE) {
+      return;
+    }
+    const distance = distanceToCrosshair(pose, crosshair);
+    if (distance === Infinity || (best && distance >= best.distance)) {
+      return;
+    }
+    best = { index, pose, distance, confidence, hit: detectHit(pose, weapon, crosshair) };
+  });
+  return best;
+};
+
+const horizontalCentre = (pose: PoseLike) => {
+  const visible = pose.keypoints.filter((k) => k.score > MIN_KEYPOINT_SCORE);
+  const points = visible.length ? visible : pose.keypoints;
+  return points.reduce((sum, k) => sum + k.position.x, 0) / Math.max(points.length, 1);
+};
+
+// 1-based position of a person counting from the left of the frame, so the HUD
+// can say which of several people is locked
+export const personNumber = (poses: PoseLike[], index: number): number => {
+  const x = horizontalCentre(poses[index]);
+  return poses.filter((pose, i) => i !== index && horizontalCentre(pose) < x).length + 1;
+};
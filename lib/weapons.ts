@@ -0,0 +1,103 @@
+// Single source of truth for weapon behaviour and presentation. Adding a weapon
+// means adding an entry here - hit detection, the crosshair, the selection
+// cards and the HUD all read from this registry.
+
+export type HitZone = "head" | "torso" | "lowerBody";
+
+export const HIT_ZONE_LABELS: Record<HitZone, string> = {
+  head: "HEAD",
+  torso: "TORSO",
+  lowerBody: "LOWER BODY",
+};
+
+export const isHitZone = (value: unknown): value is HitZone =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(HIT_ZONE_LABELS, value);
+
+export interface CrosshairSpec {
+  // Ring radii in Three.js scene units (the crosshair sits at z = -0.5)
+  innerRadius: number;
+  outerRadius: number;
+  color: number;
+}
+
+export interface WeaponDefinition {
+  name: string;
+  // Short label for the combat HUD
+  label: string;
+  icon: string;
+  // Tailwind classes, spelled out so the compiler can see them
+  textClass: string;
+  overlayClass: string;
+  damageRating: string;
+  rangeRating: string;
+  damage: Record<HitZone, number>;
+  cooldownMs: number;
+  magazineSize: number;
+  reloadMs: number;
+  // Hit radius around the crosshair centre, in 640x480 video pixels
+  hitRadius: number;
+  crosshair: CrosshairSpec;
+  sound: string;
+}
+
+export const WEAPONS = {
+  sniper: {
+    name: "SNIPER RIFLE",
+    label: "SNP",
+    icon: "◊",
+    textClass: "text-green-400",
+    overlayClass: "tactical-overlay",
+    damageRating: "HIGH",
+    rangeRating: "LONG",
+    damage: { head: 40, torso: 15, lowerBody: 10 },
+    cooldownMs: 400,
+    magazineSize: 5,
+    reloadMs: 3000,
+    hitRadius: 75,
+    crosshair: { innerRadius: 0.01, outerRadius: 0.02, color: 0x00ff00 },
+    sound: "/sniper.mp3",
+  },
+  pistol: {
+    name: "TACTICAL PISTOL",
+    label: "PST",
+    icon: "●",
+    textClass: "text-red-400",
+    overlayClass: "tactical-overlay-red",
+    damageRating: "MEDIUM",
+    rangeRating: "CLOSE",
+    damage: { head: 20, torso: 15, lowerBody: 10 },
+    cooldownMs: 200,
+    magazineSize: 12,
+    reloadMs: 1500,
+    hitRadius: 125,
+    crosshair: { innerRadius: 0.02, outerRadius: 0.04, color: 0xff0000 },
+    sound: "/pistol.mp3",
+  },
+  shotgun: {
+    name: "COMBAT SHOTGUN",
+    label: "SHG",
+    icon: "◈",
+    textClass: "text-yellow-400",
+    overlayClass: "tactical-overlay-yellow",
+    damageRating: "EXTREME",
+    rangeRating: "CLOSE",
+    damage: { head: 20, torso: 15, lowerBody: 10 },
+    cooldownMs: 600,
+    magazineSize: 2,
+    reloadMs: 2500,
+    hitRadius: 175,
+    crosshair: { innerRadius: 0.05, outerRadius: 0.08, color: 0xffff00 },
+    sound: "/shotgun.mp3",
+  },
+} satisfies Record<string, WeaponDefinition>;
+
+export type WeaponId = keyof typeof WEAPONS;
+
+export const WEAPON_IDS = Object.keys(WEAPONS) as WeaponId[];
+
+export const DEFAULT_WEAPON: WeaponId = "pistol";
+
+export const getWeapon = (id: WeaponId): WeaponDefinition => WEAPONS[id];
+
+export const isWeaponId = (value: unknown): value is WeaponId =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(WEAPONS, value);
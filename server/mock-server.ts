@@ -0,0 +1,625 @@
+// Local stand-in for the hosted game server, for offline development.
+// Run with `npm run mock-server`, then start the app with `npm run dev:offline`.
+import { createServer } from "http";
+import { Server, Socket } from "socket.io";
+import {
+  ClientEvent,
+  ClientPayload,
+  ClientToServerEvents,
+  GameOverReason,
+  operatorKey,
+  parseClientEvent,
+  PauseCause,
+  PauseInfo,
+  Player,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  RematchCancelReason,
+  ServerToClientEvents,
+} from "../lib/protocol";
+import type { TeamId } from "../lib/game-modes";
+import { COUNTDOWN_MS } from "../lib/match-clock";
+import { verifyShot } from "../lib/shot-verification";
+import { getWeapon } from "../lib/weapons";
+import * as rooms from "./rooms";
+
+const port = Number(process.env.MOCK_SERVER_PORT) || 4000;
+
+const httpServer = createServer();
+const io = new Server<ClientToServerEvents, ServerToClientEvents>(httpServer, {
+  // Phones on the LAN hit this from whatever host the dev server is on
+  cors: { origin: true, credentials: true },
+});
+
+const broadcastPlayers = (room: rooms.Room) => {
+  io.to(room.code).emit("playerUpdate", room.players);
+};
+
+// room code -> pending time-limit timeout
+const clockTimers = new Map<string, NodeJS.Timeout>();
+
+const stopClock = (room: rooms.Room) => {
+  clearTimeout(clockTimers.get(room.code));
+  clockTimers.delete(room.code);
+  rooms.stopClock(room);
+};
+
+// room code -> operator key -> their pending forfeit while play is paused
+const pauseTimers = new Map<string, Map<string, NodeJS.Timeout>>();
+
+const clearPause = (room: rooms.Room) => {
+  pauseTimers.get(room.code)?.forEach((timer) => clearTimeout(timer));
+  pauseTimers.delete(room.code);
+};
+
+const clearForfeit = (room: rooms.Room, operator: string) => {
+  const timers = pauseTimers.get(room.code);
+  clearTimeout(timers?.get(operator));
+  timers?.delete(operator);
+};
+
+// operator key -> pending reload, one per player
+const reloadTimers = new Map<string, NodeJS.Timeout>();
+
+const cancelReload = (operator: string) => {
+  clearTimeout(reloadTimers.get(operator));
+  reloadTimers.delete(operator);
+};
+
+// room code -> pending rematch request timeout
+const rematchTimers = new Map<string, NodeJS.Timeout>();
+
+const rematchPayload = (rematch: rooms.RematchVote) => ({
+  from: rematch.from,
+  accepted: rematch.accepted,
+  swapWeapons: rematch.swapWeapons,
+  swapSides: rematch.swapSides,
+  expiresAt: rematch.expiresAt,
+  serverNow: Date.now(),
+});
+
+const cancelRematch = (room: rooms.Room, reason: RematchCancelReason, by?: string) => {
+  clearTimeout(rematchTimers.get(room.code));
+  rematchTimers.delete(room.code);
+  rooms.cancelRematch(room);
+  console.log(`[mock] ${room.code} rematch off (${reason})`);
+  io.to(room.code).emit("rematchCancelled", { reason, by });
+};
+
+const finishRound = (room: rooms.Room, winner: Player, winningTeam: TeamId | undefined, reason: GameOverReason) => {
+  stopClock(room);
+  clearPause(room);
+  announceResult(room, rooms.endRound(room, winner, winningTeam), reason);
+};
+
+const announceResult = (room: rooms.Room, end: rooms.RoundEnd, reason: GameOverReason, forfeit?: PauseInfo) => {
+  io.to(room.code).emit("gameOver", {
+    winner: end.winner.id,
+    winnerOperatorId: end.winner.operatorId,
+    winnerIsHost: !!end.winner.isHost,
+    placements: rooms.getPlacements(room, end.winner),
+    winningTeam: end.winningTeam,
+    roundResults: room.roundResults,
+    matchOver: end.matchOver,
+    reason,
+    forfeit,
+  });
+  if (!end.matchOver) {
+    console.log(`[mock] ${room.code} round ${room.roundResults.length} of ${room.settings.rounds ?? 1} done`);
+    setTimeout(() => {
+      const next = rooms.startNextRound(room.code);
+      if (next) {
+        broadcastPlayers(next);
+        updateCountdown(next);
+      }
+    }, rooms.ROUND_RESULT_MS);
+  }
+};
+
+// Timed rooms: starts the round clock along with the countdown. It runs from
+// the start of the countdown so both ends agree on when time is up.
+const startClock = (room: rooms.Room) => {
+  const minutes = room.settings.timeLimitMinutes ?? 0;
+  if (minutes <= 0 || clockTimers.has(room.code) || room.suddenDeath || room.startsAt === null) {
+    return;
+  }
+  room.clockEndsAt = room.startsAt - COUNTDOWN_MS + minutes * 60000;
+  runClock(room);
+};
+
+// Arms the time-limit timeout for the room's current clockEndsAt and tells the
+// room when it runs out. Called again with a later time after a pause.
+const runClock = (room: rooms.Room) => {
+  const endsAt = room.clockEndsAt;
+  if (endsAt === null) {
+    return;
+  }
+  clearTimeout(clockTimers.get(room.code));
+  io.to(room.code).emit("matchClock", { endsAt, serverNow: Date.now(), suddenDeath: false });
+  clockTimers.set(
+    room.code,
+    setTimeout(() => {
+      clockTimers.delete(room.code);
+      const decided = rooms.decideOnTime(room);
+      if (decided) {
+        console.log(`[mock] ${room.code} time expired, ${decided.winner.id} ahead on health`);
+        finishRound(room, decided.winner, decided.winningTeam, "timeout");
+        return;
+      }
+      console.log(`[mock] ${room.code} time expired level, sudden death`);
+      rooms.startSuddenDeath(room);
+      io.to(room.code).emit("matchClock", { endsAt: null, serverNow: Date.now(), suddenDeath: true });
+    }, endsAt - Date.now())
+  );
+};
+
+// Starts the countdown once everyone is ready, or calls it off if someone stood
+// down or left before it finished. A paused match waits for the resume instead.
+const updateCountdown = (room: rooms.Room) => {
+  if (room.pause) {
+    return;
+  }
+  const startsAt = rooms.scheduleStart(room);
+  if (startsAt !== null) {
+    console.log(`[mock] ${room.code} combat starts in ${COUNTDOWN_MS}ms`);
+    io.to(room.code).emit("matchStart", { startsAt, serverNow: Date.now() });
+    startClock(room);
+  } else if (rooms.cancelStart(room)) {
+    console.log(`[mock] ${room.code} countdown called off`);
+    stopClock(room);
+    io.to(room.code).emit("matchStart", { startsAt: null, serverNow: Date.now() });
+  }
+};
+
+// Holds play while a player who's still standing is gone mid-match; they
+// forfeit if they aren't back within the grace period. Each player who drops
+// out while it's held gets a grace period of their own.
+const pauseMatch = (room: rooms.Room, playerId: string, cause: PauseCause) => {
+  const player = room.players.find((p) => p.id === playerId);
+  const absence = player ? rooms.pauseMatch(room, player, cause) : null;
+  if (!absence) {
+    return;
+  }
+  const { operator } = absence;
+  console.log(`[mock] ${room.code} paused, ${operator} ${cause}`);
+  // The clock stops with play; clockEndsAt is kept for the resume
+  clearTimeout(clockTimers.get(room.code));
+  clockTimers.delete(room.code);
+  io.to(room.code).emit("matchPaused", { ...absence, serverNow: Date.now() });
+  const timers = pauseTimers.get(room.code) ?? new Map<string, NodeJS.Timeout>();
+  pauseTimers.set(room.code, timers);
+  timers.set(
+    operator,
+    setTimeout(() => {
+      timers.delete(operator);
+      const forfeit = rooms.forfeitMatch(room, operator);
+      if (!forfeit) {
+        return;
+      }
+      console.log(`[mock] ${room.code} ${operator} forfeits (${cause})`);
+      broadcastPlayers(room);
+      if (forfeit.end) {
+        stopClock(room);
+        clearPause(room);
+        announceResult(room, forfeit.end, "forfeit", { operator, cause });
+        return;
+      }
+      // Everyone else carries on without them
+      carryOn(room, forfeit.startsAt);
+    }, absence.forfeitAt - Date.now())
+  );
+};
+
+// Play picks back up after a short countdown once nobody's gone. Until then
+// the room hears who it's still waiting on - the latest to drop out, as that's
+// who everyone was last told about.
+const carryOn = (room: rooms.Room, startsAt: number | null) => {
+  if (startsAt === null) {
+    const waiting = room.pause?.absent[room.pause.absent.length - 1];
+    if (waiting) {
+      io.to(room.code).emit("matchPaused", { ...waiting, serverNow: Date.now() });
+    }
+    return;
+  }
+  console.log(`[mock] ${room.code} resuming`);
+  clearPause(room);
+  io.to(room.code).emit("matchStart", { startsAt, serverNow: Date.now() });
+  runClock(room);
+};
+
+// Takes the player off the pause once they're back, or have left for good
+const resumeMatch = (room: rooms.Room, operator: string) => {
+  const resume = rooms.resumeMatch(room, operator);
+  if (!resume) {
+    return false;
+  }
+  clearForfeit(room, operator);
+  carryOn(room, resume.startsAt);
+  return true;
+};
+
+io.on("connection", (socket) => {
+  console.log(`[mock] ${socket.id} connected`);
+
+  // Like the client's createValidatedListener: payloads are checked against the
+  // protocol first, and malformed ones are logged and dropped rather than
+  // reaching a handler that would throw and take every room down with it
+  const on = <E extends ClientEvent>(event: E, handler: (payload: ClientPayload<E>) => void) => {
+    // socket.io's typed `on` can't narrow a generic event name, so go untyped here
+    (socket as unknown as Socket).on(event as string, (payload: unknown) => {
+      let parsed: ClientPayload<E>;
+      try {
+        parsed = parseClientEvent(event, payload);
+      } catch (err) {
+        if (err instanceof ProtocolError) {
+          console.warn(`[mock] ${socket.id} sent a malformed ${event}: ${err.message}`);
+          return;
+        }
+        throw err;
+      }
+      handler(parsed);
+    });
+  };
+
+  const leave = () => {
+    const leaving = rooms.getRoomForPlayer(socket.id)?.players.find((p) => p.id === socket.id);
+    const room = rooms.leaveRoom(socket.id);
+    if (leaving) {
+      cancelReload(operatorKey(leaving));
+    }
+    if (room) {
+      socket.leave(room.code);
+      console.log(`[mock] ${socket.id} left ${room.code}`);
+      broadcastPlayers(room);
+      updateCountdown(room);
+      if (leaving && room.rematch) {
+        cancelRematch(room, "left", operatorKey(leaving));
+      }
+      const host = room.players.find((p) => p.isHost);
+      if (leaving?.isHost && host) {
+        console.log(`[mock] ${room.code} host is now ${host.id}`);
+        io.to(room.code).emit("hostChanged", { host: operatorKey(host) });
+      }
+      if (rooms.abandonMatch(room)) {
+        console.log(`[mock] ${room.code} match abandoned, nobody left to fight`);
+        stopClock(room);
+        clearPause(room);
+        io.to(room.code).emit("matchAbandoned");
+        broadcastPlayers(room);
+        return;
+      }
+      // Leaving mid-round can leave one side alone in it, same as a knockout,
+      // even while play is held for someone else
+      const last = room.startsAt !== null ? rooms.lastSideStanding(room) : undefined;
+      if (last) {
+        console.log(`[mock] ${room.code} ${last.winner.id} is the last left standing`);
+        finishRound(room, last.winner, last.winningTeam, "elimination");
+      } else if (leaving) {
+        // Play doesn't wait on someone who's gone for good
+        resumeMatch(room, operatorKey(leaving));
+      }
+    }
+  };
+
+  // Everything a player needs to find themselves in the room and get back in later
+  const sessionPayload = (room: rooms.Room) => ({
+    roomCode: room.code,
+    sessionToken: rooms.issueSession(socket.id, room.code),
+    operatorId: room.players.find((p) => p.id === socket.id)?.operatorId,
+    settings: room.settings,
+  });
+
+  on("hello", ({ protocolVersion }) => {
+    console.log(`[mock] ${socket.id} speaks protocol v${protocolVersion}`);
+    socket.emit("welcome", { protocolVersion: PROTOCOL_VERSION });
+  });
+
+  on("createRoom", (settings) => {
+    leave();
+    const room = rooms.createRoom(socket.id, false, settings);
+    socket.join(room.code);
+    console.log(
+      `[mock] ${socket.id} created ${room.code} (${room.settings.mode}, ${room.settings.maxPlayers} players${
+        room.settings.friendlyFire ? ", friendly fire" : ""
+      })`
+    );
+    socket.emit("roomCreated", sessionPayload(room));
+    broadcastPlayers(room);
+  });
+
+  on("joinRoom", ({ roomCode }) => {
+    // Asking for the room we're already in keeps our seat
+    if (rooms.getRoomForPlayer(socket.id)?.code !== roomCode) {
+      leave();
+    }
+    const result = rooms.joinRoom(roomCode, socket.id);
+    if (typeof result === "string") {
+      socket.emit("joinError", { message: result });
+      return;
+    }
+    socket.join(result.code);
+    console.log(`[mock] ${socket.id} joined ${result.code}`);
+    socket.emit("roomJoined", sessionPayload(result));
+    broadcastPlayers(result);
+  });
+
+  on("rejoinRoom", ({ sessionToken }) => {
+    const result = rooms.rejoinRoom(sessionToken, socket.id);
+    if (typeof result === "string") {
+      socket.emit("rejoinError", { message: result });
+      return;
+    }
+    socket.join(result.code);
+    const player = result.players.find((p) => p.id === socket.id);
+    console.log(`[mock] ${socket.id} rejoined ${result.code}`);
+    socket.emit("roomRejoined", {
+      roomCode: result.code,
+      settings: result.settings,
+      sessionToken,
+      operatorId: player?.operatorId ?? socket.id,
+      isHost: !!player?.isHost,
+    });
+    broadcastPlayers(result);
+    // Catch up on a pause first, so the resume countdown has something to end
+    result.pause?.absent.forEach((absence) => socket.emit("matchPaused", { ...absence, serverNow: Date.now() }));
+    if (!(player && resumeMatch(result, operatorKey(player))) && result.startsAt !== null && !result.pause) {
+      socket.emit("matchStart", { startsAt: result.startsAt, serverNow: Date.now() });
+    }
+    if (result.rematch) {
+      socket.emit("rematchRequested", rematchPayload(result.rematch));
+    }
+  });
+
+  on("spectateRoom", ({ roomCode }) => {
+    leave();
+    const result = rooms.spectateRoom(roomCode, socket.id);
+    if (typeof result === "string") {
+      socket.emit("spectateError", { message: result });
+      return;
+    }
+    socket.join(result.code);
+    console.log(`[mock] ${socket.id} is spectating ${result.code}`);
+    socket.emit("spectating", { roomCode: result.code, settings: result.settings });
+    socket.emit("playerUpdate", result.players);
+    // Catch a late arrival up on a countdown or clock that's already running.
+    // A paused match shows up as the resume countdown once it's back on.
+    if (result.startsAt !== null && !result.pause) {
+      socket.emit("matchStart", { startsAt: result.startsAt, serverNow: Date.now() });
+    }
+    if (result.clockEndsAt !== null || result.suddenDeath) {
+      socket.emit("matchClock", { endsAt: result.clockEndsAt, serverNow: Date.now(), suddenDeath: result.suddenDeath });
+    }
+  });
+
+  on("joinGame", () => {
+    leave();
+    const open = rooms.findOpenPublicRoom();
+    if (!open) {
+      const room = rooms.createRoom(socket.id, true);
+      socket.join(room.code);
+      socket.emit("roomCreated", sessionPayload(room));
+      broadcastPlayers(room);
+      return;
+    }
+    const result = rooms.joinRoom(open.code, socket.id);
+    if (typeof result === "string") {
+      socket.emit("gameFull");
+      return;
+    }
+    socket.join(result.code);
+    socket.emit("roomJoined", sessionPayload(result));
+    broadcastPlayers(result);
+  });
+
+  on("getRoomInfo", ({ roomCode }) => {
+    socket.emit("roomInfo", rooms.toRoomInfo(roomCode));
+  });
+
+  on("setReady", ({ ready }) => {
+    const room = rooms.setReady(socket.id, ready);
+    if (!room) {
+      socket.emit("setReadyError", { message: "You are not in a room" });
+      return;
+    }
+    broadcastPlayers(room);
+    updateCountdown(room);
+  });
+
+  on("setTeam", ({ team }) => {
+    const result = rooms.setTeam(socket.id, team);
+    if (typeof result === "string") {
+      socket.emit("setTeamError", { message: result });
+      return;
+    }
+    broadcastPlayers(result);
+  });
+
+  on("updateSettings", (settings) => {
+    const result = rooms.updateSettings(socket.id, settings);
+    if (typeof result === "string") {
+      socket.emit("settingsError", { message: result });
+      return;
+    }
+    console.log(`[mock] ${socket.id} changed ${result.code} to ${result.settings.mode}, ${result.settings.maxPlayers} players`);
+    io.to(result.code).emit("settingsChanged", { settings: result.settings });
+    broadcastPlayers(result);
+  });
+
+  on("shoot", (record) => {
+    // Nobody gets to fire before the countdown is over
+    const now = Date.now();
+    const room = rooms.getRoomForPlayer(socket.id);
+    if (!room || !rooms.isLive(room, now)) {
+      console.warn(`[mock] rejected shot from ${socket.id}: ${room?.pause ? "match is paused" : "match has not started"}`);
+      return;
+    }
+    // No firing mid-reload - the reload handler below clears the flag when the time is up
+    const firing = room.players.find((p) => p.id === socket.id);
+    if (firing?.reloading) {
+      console.warn(`[mock] rejected shot from ${socket.id}: still reloading`);
+      return;
+    }
+    if (firing && !rooms.takeRound(room, firing, record.weapon)) {
+      console.warn(`[mock] rejected shot from ${socket.id}: ${record.weapon} magazine is empty`);
+      return;
+    }
+
+    // Recompute the hit ourselves - the client's zone is only a hint
+    const verdict = verifyShot(record, { lastShotAt: rooms.getLastShotAt(socket.id), now });
+    if (!verdict.accepted) {
+      console.warn(`[mock] rejected shot from ${socket.id}: ${verdict.reason}`);
+      return;
+    }
+    rooms.recordShotAt(socket.id, now);
+    if (firing) {
+      socket.to(room.code).emit("shotFired", { shooter: operatorKey(firing), weapon: record.weapon });
+    }
+    if (verdict.reason) {
+      console.log(`[mock] shot from ${socket.id}: ${verdict.reason}`);
+    }
+    if (verdict.damage === 0) {
+      return;
+    }
+
+    const result = rooms.applyShot(socket.id, verdict.damage, record.targetId, verdict.zone);
+    if (!result) {
+      console.warn(`[mock] shot from ${socket.id} had no valid target${record.targetId ? ` (${record.targetId})` : ""}`);
+      return;
+    }
+    console.log(`[mock] ${socket.id} hit ${result.target.id} (${verdict.zone}) for ${verdict.damage}, ${result.target.health} left`);
+    const shooter = result.room.players.find((p) => p.id === socket.id);
+    if (shooter && verdict.zone) {
+      io.to(result.room.code).emit("playerHit", {
+        shooter: operatorKey(shooter),
+        target: operatorKey(result.target),
+        weapon: record.weapon,
+        zone: verdict.zone,
+        damage: verdict.damage,
+        health: result.target.health,
+      });
+    }
+    broadcastPlayers(result.room);
+    if (result.winner) {
+      finishRound(result.room, result.winner, result.winningTeam, result.reason ?? "elimination");
+    }
+  });
+
+  on("reload", ({ weapon }) => {
+    const reloading = rooms.startReload(socket.id);
+    if (!reloading) {
+      return;
+    }
+    const { room, player } = reloading;
+    const operator = operatorKey(player);
+    // A new reload starts the time over rather than stacking another refill
+    cancelReload(operator);
+    broadcastPlayers(room);
+    reloadTimers.set(
+      operator,
+      setTimeout(() => {
+        reloadTimers.delete(operator);
+        if (rooms.finishReload(room, operator, weapon)) {
+          broadcastPlayers(room);
+        }
+      }, getWeapon(weapon).reloadMs)
+    );
+  });
+
+  on("requestRematch", ({ swapWeapons, swapSides, weapon }) => {
+    const result = rooms.requestRematch(socket.id, { swapWeapons, swapSides }, weapon);
+    if (typeof result === "string") {
+      socket.emit("rematchError", { message: result });
+      return;
+    }
+    const rematch = result.rematch;
+    if (!rematch) {
+      return;
+    }
+    console.log(`[mock] ${result.code} ${rematch.from} wants a rematch`);
+    io.to(result.code).emit("rematchRequested", rematchPayload(rematch));
+    rematchTimers.set(
+      result.code,
+      setTimeout(() => cancelRematch(result, "timeout"), rematch.expiresAt - Date.now())
+    );
+  });
+
+  on("answerRematch", ({ accept, weapon }) => {
+    const result = rooms.answerRematch(socket.id, accept, weapon);
+    if (typeof result === "string") {
+      socket.emit("rematchError", { message: result });
+      return;
+    }
+    const { room, outcome, operator } = result;
+    if (outcome === "declined") {
+      cancelRematch(room, "declined", operator);
+      return;
+    }
+    const rematch = room.rematch;
+    if (!rematch) {
+      return;
+    }
+    if (outcome === "pending") {
+      io.to(room.code).emit("rematchRequested", rematchPayload(rematch));
+      return;
+    }
+    clearTimeout(rematchTimers.get(room.code));
+    rematchTimers.delete(room.code);
+    // Clears the finished match, the clock and any pause along with it
+    const weapons = rooms.startRematch(room);
+    stopClock(room);
+    clearPause(room);
+    console.log(`[mock] ${room.code} rematch on`);
+    io.to(room.code).emit("rematchAccepted", { swapWeapons: rematch.swapWeapons, swapSides: rematch.swapSides, weapons });
+    broadcastPlayers(room);
+  });
+
+  on("leaveRoom", leave);
+
+  on("heartbeat", () => {
+    const room = rooms.getRoomForPlayer(socket.id) ?? rooms.getRoomForSpectator(socket.id);
+    socket.emit("heartbeatAck", { roomCode: room?.code ?? null, playerId: socket.id });
+  });
+
+  on("cameraStatus", ({ ok }) => {
+    const room = rooms.getRoomForPlayer(socket.id);
+    const player = room?.players.find((p) => p.id === socket.id);
+    if (!room || !player) {
+      return;
+    }
+    if (!ok) {
+      pauseMatch(room, socket.id, "camera");
+    } else if (rooms.findAbsence(room, operatorKey(player))?.cause === "camera") {
+      resumeMatch(room, operatorKey(player));
+    }
+  });
+
+  on("timeSync", ({ clientSentAt }) => {
+    socket.emit("timeSyncAck", { clientSentAt, serverNow: Date.now() });
+  });
+
+  socket.on("disconnect", (reason) => {
+    console.log(`[mock] ${socket.id} disconnected: ${reason}`);
+    // Spectators have no seat to hold
+    if (reason === "client namespace disconnect" || rooms.getRoomForSpectator(socket.id)) {
+      leave();
+      return;
+    }
+    // Hold the seat for a while in case this was just a flaky connection
+    const room = rooms.markDisconnected(socket.id);
+    if (!room) {
+      return;
+    }
+    broadcastPlayers(room);
+    pauseMatch(room, socket.id, "disconnected");
+    setTimeout(() => {
+      if (rooms.isDisconnected(socket.id)) {
+        console.log(`[mock] ${socket.id} did not come back to ${room.code}`);
+        leave();
+      }
+    }, rooms.REJOIN_GRACE_MS);
+  });
+});
+
+httpServer.listen(port, () => {
+  console.log(`[mock] D3ATHSYNC mock server listening on http://localhost:${port}`);
+});
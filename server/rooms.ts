@@ -0,0 +1,810 @@
+import { randomUUID } from "crypto";
+import {
+  canDamage,
+  canStartMatch,
+  DEFAULT_ROOM_SETTINGS,
+  GAME_MODES,
+  isMatchDecided,
+  matchLeader,
+  RoomSettings,
+  TEAM_IDS,
+  TeamId,
+  teamMembers,
+  teamSize,
+} from "../lib/game-modes";
+import { COUNTDOWN_MS } from "../lib/match-clock";
+import { getWeapon, HitZone, WeaponId } from "../lib/weapons";
+import {
+  GameOverReason,
+  operatorKey,
+  PauseCause,
+  PauseInfo,
+  Placement,
+  Player,
+  RematchOptions,
+  RoomInfo,
+  RoundResult,
+} from "../lib/protocol";
+
+export const STARTING_HEALTH = 100;
+// How long a dropped player's seat is held for them to rejoin
+export const REJOIN_GRACE_MS = 30000;
+// How long a round's result stays up before the next round's countdown
+export const ROUND_RESULT_MS = 3000;
+// How long play is held for a player who dropped out mid-match before they
+// forfeit. Shorter than REJOIN_GRACE_MS so the result is in before their seat goes.
+export const PAUSE_GRACE_MS = 20000;
+// Countdown back into combat once they're back
+export const RESUME_COUNTDOWN_MS = 3000;
+// How long everyone has to answer a rematch request
+export const REMATCH_TIMEOUT_MS = 15000;
+
+export interface Room {
+  code: string;
+  players: Player[];
+  createdAt: string;
+  // Quick match rooms can be filled by joinGame, private ones only by code
+  isPublic: boolean;
+  settings: RoomSettings;
+  // Operator keys in the order they were knocked out this round
+  eliminated: string[];
+  roundResults: RoundResult[];
+  // Server time combat starts this round, once everyone is ready. Shots before
+  // it are rejected.
+  startsAt: number | null;
+  // Timed rooms: server time the current round's clock runs out
+  clockEndsAt: number | null;
+  // Tied on time - only headshots count now
+  suddenDeath: boolean;
+  // Set while play is held for players who dropped out mid-match
+  pause: MatchPause | null;
+  // The last match has been decided and nothing has started since
+  matchOver: boolean;
+  rematch: RematchVote | null;
+  // Operator key -> rounds left in the weapon they're firing this round
+  magazines: Record<string, Magazine>;
+}
+
+export interface Magazine {
+  weapon: WeaponId;
+  rounds: number;
+}
+
+export interface MatchPause {
+  pausedAt: number;
+  // Everyone play is waiting on, in the order they dropped out. Play resumes
+  // once all of them are back or gone for good.
+  absent: Absence[];
+}
+
+export interface Absence extends PauseInfo {
+  // Server time they forfeit if they're still gone
+  forfeitAt: number;
+}
+
+export interface RematchVote extends RematchOptions {
+  // Operator keys, see operatorKey()
+  from: string;
+  accepted: string[];
+  // Operator key -> the weapon they were carrying when they agreed
+  weapons: Record<string, WeaponId>;
+  expiresAt: number;
+}
+
+const ROOM_CODE_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+const rooms = new Map<string, Room>();
+// socket id -> room code, so heartbeat/leave/disconnect can find the room
+const playerRooms = new Map<string, string>();
+// socket id -> room code for spectators, who watch without taking a seat
+const spectatorRooms = new Map<string, string>();
+// socket id -> server time of their last accepted shot, for cooldown checks
+const lastShots = new Map<string, number>();
+
+interface Session {
+  roomCode: string;
+  playerId: string;
+}
+// session token -> seat, and socket id -> session token
+const sessions = new Map<string, Session>();
+const playerSessions = new Map<string, string>();
+
+const generateRoomCode = (): string => {
+  let code = "";
+  do {
+    code = Array.from({ length: 6 }, () => ROOM_CODE_CHARS[Math.floor(Math.random() * ROOM_CODE_CHARS.length)]).join("");
+  } while (rooms.has(code));
+  return code;
+};
+
+const newPlayer = (id: string, isHost: boolean, team?: TeamId): Player => ({
+  id,
+  operatorId: randomUUID(),
+  health: STARTING_HEALTH,
+  ready: false,
+  isHost,
+  connected: true,
+  team,
+});
+
+// Auto-balance: new players go to whichever team is smaller
+const pickTeam = (settings: RoomSettings, players: Player[]): TeamId | undefined => {
+  if (!GAME_MODES[settings.mode].teams) {
+    return undefined;
+  }
+  return teamMembers(players, "bravo").length < teamMembers(players, "alpha").length ? "bravo" : "alpha";
+};
+
+// A match has started, is on hold, or has been played out
+const isUnderWay = (room: Room) =>
+  room.startsAt !== null || room.pause !== null || room.roundResults.length > 0 || room.matchOver;
+
+export const getRoom = (code: string): Room | undefined => rooms.get(code);
+
+export const getRoomForPlayer = (playerId: string): Room | undefined => {
+  const code = playerRooms.get(playerId);
+  return code ? rooms.get(code) : undefined;
+};
+
+export const getRoomForSpectator = (spectatorId: string): Room | undefined => {
+  const code = spectatorRooms.get(spectatorId);
+  return code ? rooms.get(code) : undefined;
+};
+
+export const createRoom = (hostId: string, isPublic = false, settings = DEFAULT_ROOM_SETTINGS): Room => {
+  const room: Room = {
+    code: generateRoomCode(),
+    players: [newPlayer(hostId, true, pickTeam(settings, []))],
+    createdAt: new Date().toISOString(),
+    isPublic,
+    settings,
+    eliminated: [],
+    roundResults: [],
+    startsAt: null,
+    clockEndsAt: null,
+    suddenDeath: false,
+    pause: null,
+    matchOver: false,
+    rematch: null,
+    magazines: {},
+  };
+  rooms.set(room.code, room);
+  playerRooms.set(hostId, room.code);
+  return room;
+};
+
+// Returns the joined room or an error message suitable for joinError
+export const joinRoom = (code: string, playerId: string): Room | string => {
+  const room = rooms.get(code);
+  if (!room) {
+    return `Room ${code} does not exist`;
+  }
+  if (room.players.some((p) => p.id === playerId)) {
+    return room;
+  }
+  if (isUnderWay(room)) {
+    return `Room ${code} is already in a match`;
+  }
+  if (room.players.length >= room.settings.maxPlayers) {
+    return `Room ${code} is full`;
+  }
+  room.players.push(newPlayer(playerId, false, pickTeam(room.settings, room.players)));
+  playerRooms.set(playerId, code);
+  spectatorRooms.delete(playerId);
+  return room;
+};
+
+// Returns the watched room or an error message suitable for spectateError
+export const spectateRoom = (code: string, spectatorId: string): Room | string => {
+  const room = rooms.get(code);
+  if (!room) {
+    return `Room ${code} does not exist`;
+  }
+  if (playerRooms.has(spectatorId)) {
+    return "Leave your room before spectating";
+  }
+  spectatorRooms.set(spectatorId, code);
+  return room;
+};
+
+export const findOpenPublicRoom = (): Room | undefined =>
+  Array.from(rooms.values()).find(
+    (room) => room.isPublic && !isUnderWay(room) && room.players.length < room.settings.maxPlayers
+  );
+
+// Hands out a token the player can use to get their seat back after a reconnect
+export const issueSession = (playerId: string, roomCode: string): string => {
+  const existing = playerSessions.get(playerId);
+  if (existing) {
+    sessions.delete(existing);
+  }
+  const token = randomUUID();
+  sessions.set(token, { roomCode, playerId });
+  playerSessions.set(playerId, token);
+  return token;
+};
+
+// Moves a held seat over to the player's new socket id. Returns the room, or
+// an error message suitable for rejoinError.
+export const rejoinRoom = (token: string, playerId: string): Room | string => {
+  const session = sessions.get(token);
+  const room = session ? rooms.get(session.roomCode) : undefined;
+  const player = room?.players.find((p) => p.id === session?.playerId);
+  if (!session || !room || !player) {
+    return "Your seat in the match is no longer available";
+  }
+  const previousId = session.playerId;
+  if (previousId !== playerId) {
+    playerRooms.delete(previousId);
+    playerSessions.delete(previousId);
+    const lastShot = lastShots.get(previousId);
+    lastShots.delete(previousId);
+    if (lastShot !== undefined) {
+      lastShots.set(playerId, lastShot);
+    }
+  }
+  player.id = playerId;
+  player.connected = true;
+  session.playerId = playerId;
+  playerRooms.set(playerId, room.code);
+  playerSessions.set(playerId, token);
+  return room;
+};
+
+// Holds the player's seat while their connection is down
+export const markDisconnected = (playerId: string): Room | undefined => {
+  const room = getRoomForPlayer(playerId);
+  const player = room?.players.find((p) => p.id === playerId);
+  if (!room || !player) {
+    return undefined;
+  }
+  player.connected = false;
+  return room;
+};
+
+export const isDisconnected = (playerId: string): boolean =>
+  getRoomForPlayer(playerId)?.players.find((p) => p.id === playerId)?.connected === false;
+
+// Removes the player from whatever room they are in. Empty rooms are deleted.
+export const leaveRoom = (playerId: string): Room | undefined => {
+  const watching = getRoomForSpectator(playerId);
+  if (spectatorRooms.delete(playerId)) {
+    return watching;
+  }
+  const room = getRoomForPlayer(playerId);
+  playerRooms.delete(playerId);
+  lastShots.delete(playerId);
+  const token = playerSessions.get(playerId);
+  if (token) {
+    sessions.delete(token);
+    playerSessions.delete(playerId);
+  }
+  if (!room) {
+    return undefined;
+  }
+  const leaving = room.players.find((p) => p.id === playerId);
+  if (leaving) {
+    delete room.magazines[operatorKey(leaving)];
+  }
+  room.players = room.players.filter((p) => p.id !== playerId);
+  // The host's gone - the room passes to whoever has been in it longest,
+  // preferring someone who's still connected
+  if (room.players.length > 0 && !room.players.some((p) => p.isHost)) {
+    const heir = room.players.find((p) => p.connected !== false) ?? room.players[0];
+    heir.isHost = true;
+  }
+  if (room.players.length === 0) {
+    rooms.delete(room.code);
+    spectatorRooms.forEach((code, spectatorId) => {
+      if (code === room.code) {
+        spectatorRooms.delete(spectatorId);
+      }
+    });
+  }
+  return room;
+};
+
+export const setReady = (playerId: string, ready: boolean): Room | undefined => {
+  const room = getRoomForPlayer(playerId);
+  const player = room?.players.find((p) => p.id === playerId);
+  if (!room || !player) {
+    return undefined;
+  }
+  player.ready = ready;
+  return room;
+};
+
+// Returns the room or an error message suitable for setTeamError
+export const setTeam = (playerId: string, team: TeamId): Room | string => {
+  const room = getRoomForPlayer(playerId);
+  const player = room?.players.find((p) => p.id === playerId);
+  if (!room || !player) {
+    return "You are not in a room";
+  }
+  if (!GAME_MODES[room.settings.mode].teams) {
+    return "This room has no teams";
+  }
+  if (player.ready) {
+    return "Leave ready state before switching teams";
+  }
+  if (player.team !== team && teamMembers(room.players, team).length >= teamSize(room.settings)) {
+    return "That team is full";
+  }
+  player.team = team;
+  return room;
+};
+
+// The host can change the settings in the briefing until the match starts.
+// Everyone readies up again under the new ones, and teams are rebalanced if
+// they no longer fit. Returns the room or an error message suitable for
+// settingsError.
+export const updateSettings = (playerId: string, settings: RoomSettings): Room | string => {
+  const room = getRoomForPlayer(playerId);
+  const player = room?.players.find((p) => p.id === playerId);
+  if (!room || !player) {
+    return "You are not in a room";
+  }
+  if (!player.isHost) {
+    return "Only the host can change the room settings";
+  }
+  if (isUnderWay(room)) {
+    return "Settings can't be changed once the match has started";
+  }
+  if (room.players.length > settings.maxPlayers) {
+    return `There are already ${room.players.length} operators in the room`;
+  }
+  const teamsFit =
+    GAME_MODES[settings.mode].teams &&
+    room.players.every((p) => p.team) &&
+    TEAM_IDS.every((team) => teamMembers(room.players, team).length <= teamSize(settings));
+  room.settings = settings;
+  room.players.forEach((p, index) => {
+    p.ready = false;
+    if (!teamsFit) {
+      p.team = pickTeam(settings, room.players.slice(0, index));
+    }
+  });
+  return room;
+};
+
+export interface ShotResult {
+  room: Room;
+  target: Player;
+  eliminated: boolean;
+  // Set once only one player (or one team) is left standing
+  winner?: Player;
+  winningTeam?: TeamId;
+  reason?: GameOverReason;
+}
+
+export const getLastShotAt = (playerId: string): number | null => lastShots.get(playerId) ?? null;
+
+export const recordShotAt = (playerId: string, at: number) => {
+  lastShots.set(playerId, at);
+};
+
+// Spends a round from the player's magazine. A weapon they haven't fired yet
+// this round starts full, as it does on the client. Returns false when it's empty.
+export const takeRound = (room: Room, player: Player, weapon: WeaponId): boolean => {
+  const key = operatorKey(player);
+  const current = room.magazines[key];
+  const rounds = current?.weapon === weapon ? current.rounds : getWeapon(weapon).magazineSize;
+  if (rounds <= 0) {
+    return false;
+  }
+  room.magazines[key] = { weapon, rounds: rounds - 1 };
+  return true;
+};
+
+// targetId is the operator key the shooter picked; it can be left out when
+// there is only one opponent still standing
+export const applyShot = (
+  shooterId: string,
+  damage: number,
+  targetId?: string,
+  zone?: HitZone | null
+): ShotResult | undefined => {
+  const room = getRoomForPlayer(shooterId);
+  const shooter = room?.players.find((p) => p.id === shooterId);
+  if (!room || !shooter || shooter.health <= 0 || room.players.length < 2) {
+    return undefined;
+  }
+  const standingOthers = room.players.filter((p) => p.id !== shooterId && p.health > 0);
+  const enemies = standingOthers.filter((p) => !GAME_MODES[room.settings.mode].teams || p.team !== shooter.team);
+  const target = targetId
+    ? standingOthers.find((p) => operatorKey(p) === targetId)
+    : enemies.length === 1
+      ? enemies[0]
+      : undefined;
+  // Hits on teammates are ignored unless the room has friendly fire on
+  if (!target || !canDamage(shooter, target, room.settings)) {
+    return undefined;
+  }
+  if (room.suddenDeath && zone !== "head") {
+    return undefined;
+  }
+  // Never trust the client with more than a full health bar in one shot
+  const clamped = Math.max(0, Math.min(STARTING_HEALTH, damage));
+  target.health = Math.max(0, target.health - clamped);
+  const eliminated = target.health === 0;
+  if (eliminated) {
+    room.eliminated.push(operatorKey(target));
+  }
+  // First headshot in sudden death takes the round
+  if (room.suddenDeath) {
+    const teams = GAME_MODES[room.settings.mode].teams;
+    return { room, target, eliminated, winner: shooter, winningTeam: teams ? shooter.team : undefined, reason: "suddenDeath" };
+  }
+  const last = eliminated ? lastSideStanding(room, shooter) : undefined;
+  return last ? { room, target, eliminated, ...last, reason: "elimination" } : { room, target, eliminated };
+};
+
+// The round goes to whoever's left once only one player (or one team) is still
+// standing - after a knockout, or after someone leaves mid-round. In team
+// modes credit goes to `credit` if they're standing on the winning side.
+export const lastSideStanding = (room: Room, credit?: Player): { winner: Player; winningTeam?: TeamId } | undefined => {
+  const standing = room.players.filter((p) => p.health > 0);
+  if (!GAME_MODES[room.settings.mode].teams) {
+    return standing.length === 1 ? { winner: standing[0] } : undefined;
+  }
+  const teamsStanding = TEAM_IDS.filter((team) => standing.some((p) => p.team === team));
+  if (teamsStanding.length !== 1) {
+    return undefined;
+  }
+  const winningTeam = teamsStanding[0];
+  const winner = credit && credit.team === winningTeam && credit.health > 0 ? credit : standing[0];
+  return { winner, winningTeam };
+};
+
+// Who's ahead when a timed round runs out: most health, summed per team in
+// team modes. Null on a tie, which goes to sudden death.
+export const decideOnTime = (room: Room): { winner: Player; winningTeam?: TeamId } | null => {
+  if (GAME_MODES[room.settings.mode].teams) {
+    const totals = TEAM_IDS.map((team) => ({
+      team,
+      health: teamMembers(room.players, team).reduce((sum, p) => sum + p.health, 0),
+    })).sort((a, b) => b.health - a.health);
+    if (totals[0].health === totals[1].health) {
+      return null;
+    }
+    const best = teamMembers(room.players, totals[0].team).sort((a, b) => b.health - a.health)[0];
+    return best ? { winner: best, winningTeam: totals[0].team } : null;
+  }
+  const ranked = [...room.players].sort((a, b) => b.health - a.health);
+  if (ranked.length < 2 || ranked[0].health === ranked[1].health) {
+    return null;
+  }
+  return { winner: ranked[0] };
+};
+
+// Starts the ready-up countdown. Returns null if it's already running or
+// someone isn't ready.
+export const scheduleStart = (room: Room, now = Date.now()): number | null => {
+  if (room.startsAt !== null || !canStartMatch(room.players, room.settings)) {
+    return null;
+  }
+  room.startsAt = now + COUNTDOWN_MS;
+  return room.startsAt;
+};
+
+// Calls off a countdown that hasn't finished yet. Returns whether there was one.
+export const cancelStart = (room: Room, now = Date.now()): boolean => {
+  if (room.startsAt === null || now >= room.startsAt || canStartMatch(room.players, room.settings)) {
+    return false;
+  }
+  room.startsAt = null;
+  return true;
+};
+
+// Countdown over and play not held
+export const isLive = (room: Room, now = Date.now()) => room.startsAt !== null && now >= room.startsAt && room.pause === null;
+
+export const findAbsence = (room: Room, operator: string): Absence | undefined =>
+  room.pause?.absent.find((absence) => absence.operator === operator);
+
+// Holds play while the player is gone. Only a countdown or combat can be
+// paused, and not for someone already knocked out - play doesn't wait on them.
+// Anyone else who drops out while it's held joins the same pause with a grace
+// period of their own. Returns null if play isn't held for them.
+export const pauseMatch = (room: Room, player: Player, cause: PauseCause, now = Date.now()): Absence | null => {
+  const operator = operatorKey(player);
+  if (room.startsAt === null || player.health <= 0 || findAbsence(room, operator)) {
+    return null;
+  }
+  const absence = { operator, cause, forfeitAt: now + PAUSE_GRACE_MS };
+  room.pause ??= { pausedAt: now, absent: [] };
+  room.pause.absent.push(absence);
+  return absence;
+};
+
+// Schedules the countdown back into combat. The round clock is pushed back by
+// however long play was held, so nobody loses time to the pause. Returns the
+// new start time.
+const liftPause = (room: Room, pause: MatchPause, now: number): number => {
+  const startsAt = now + RESUME_COUNTDOWN_MS;
+  if (room.clockEndsAt !== null) {
+    room.clockEndsAt += startsAt - Math.max(pause.pausedAt, room.startsAt ?? now);
+  }
+  room.pause = null;
+  room.startsAt = startsAt;
+  return startsAt;
+};
+
+// Takes the operator off the pause and lifts it if nobody else is still gone.
+// Returns the new start time, or null while play is held for someone else.
+const dropAbsence = (room: Room, pause: MatchPause, operator: string, now: number): number | null => {
+  pause.absent = pause.absent.filter((absence) => absence.operator !== operator);
+  return pause.absent.length > 0 ? null : liftPause(room, pause, now);
+};
+
+export interface Resume {
+  // Null while play is still held for someone else
+  startsAt: number | null;
+}
+
+// The operator is back, or has left for good. Undefined if play wasn't held
+// for them.
+export const resumeMatch = (room: Room, operator: string, now = Date.now()): Resume | undefined =>
+  room.pause && findAbsence(room, operator) ? { startsAt: dropAbsence(room, room.pause, operator, now) } : undefined;
+
+export interface Forfeit extends Resume {
+  // Set when that leaves only one side standing - the match goes to them
+  end?: RoundEnd;
+}
+
+// The absent player is knocked out - their team only goes with them if
+// nobody else on it is still standing. Play carries on while more than one
+// side is left, once nobody else is gone; otherwise the best-placed player
+// left takes the match.
+export const forfeitMatch = (room: Room, operator: string, now = Date.now()): Forfeit | undefined => {
+  const absent = room.players.find((p) => operatorKey(p) === operator);
+  const pause = room.pause;
+  if (!absent || !pause || !findAbsence(room, operator)) {
+    return undefined;
+  }
+  absent.health = 0;
+  if (!room.eliminated.includes(operator)) {
+    room.eliminated.push(operator);
+  }
+  const standing = room.players.filter((p) => p.health > 0);
+  const teams = GAME_MODES[room.settings.mode].teams;
+  const sides = teams ? TEAM_IDS.filter((team) => standing.some((p) => p.team === team)) : standing.map(operatorKey);
+  if (sides.length > 1) {
+    return { startsAt: dropAbsence(room, pause, operator, now) };
+  }
+  const winner = [...standing].sort((a, b) => b.health - a.health)[0];
+  room.startsAt = null;
+  room.pause = null;
+  if (!winner) {
+    return undefined;
+  }
+  const winningTeam = teams ? winner.team : undefined;
+  room.roundResults.push({ round: room.roundResults.length + 1, winner: operatorKey(winner), winningTeam });
+  room.matchOver = true;
+  return { end: { matchOver: true, winner, winningTeam }, startsAt: null };
+};
+
+export const startSuddenDeath = (room: Room) => {
+  room.clockEndsAt = null;
+  room.suddenDeath = true;
+};
+
+export const stopClock = (room: Room) => {
+  room.clockEndsAt = null;
+  room.suddenDeath = false;
+};
+
+// Winner first, then whoever is still standing by health, then everyone else
+// in reverse order of elimination. Players who left mid-match aren't listed.
+export const getPlacements = (room: Room, winner?: Player): Placement[] => {
+  const standing = room.players
+    .filter((p) => p.health > 0)
+    .sort((a, b) => Number(b === winner) - Number(a === winner) || b.health - a.health)
+    .map(operatorKey);
+  const present = new Set(room.players.map(operatorKey));
+  const knockedOut = room.eliminated.filter((id) => present.has(id)).reverse();
+  return [...standing, ...knockedOut].map((id, index) => ({ id, place: index + 1 }));
+};
+
+// Marks the player as reloading; the caller calls finishReload once the
+// weapon's reload time is up
+export const startReload = (playerId: string): { room: Room; player: Player } | undefined => {
+  const room = getRoomForPlayer(playerId);
+  const player = room?.players.find((p) => p.id === playerId);
+  if (!room || !player) {
+    return undefined;
+  }
+  player.reloading = true;
+  return { room, player };
+};
+
+// Refills the operator's magazine. Keyed by operator so a reload started
+// before a reconnect still lands. Returns whether they're still in the room.
+export const finishReload = (room: Room, operator: string, weapon: WeaponId): boolean => {
+  const player = room.players.find((p) => operatorKey(p) === operator);
+  if (!player) {
+    return false;
+  }
+  player.reloading = false;
+  room.magazines[operator] = { weapon, rounds: getWeapon(weapon).magazineSize };
+  return true;
+};
+
+export interface RoundEnd {
+  matchOver: boolean;
+  // The match winner once it's over, otherwise the round winner
+  winner: Player;
+  winningTeam?: TeamId;
+}
+
+// Records the round and works out whether the match is over. A decided round
+// isn't held for anyone any more.
+export const endRound = (room: Room, winner: Player, winningTeam?: TeamId): RoundEnd => {
+  room.startsAt = null;
+  room.pause = null;
+  room.roundResults.push({ round: room.roundResults.length + 1, winner: operatorKey(winner), winningTeam });
+  if (!isMatchDecided(room.roundResults, room.settings)) {
+    return { matchOver: false, winner, winningTeam };
+  }
+  room.matchOver = true;
+  const leader = matchLeader(room.roundResults);
+  if (GAME_MODES[room.settings.mode].teams) {
+    const team = TEAM_IDS.find((id) => id === leader) ?? winningTeam;
+    const member = winner.team === team ? winner : room.players.find((p) => p.team === team);
+    return { matchOver: true, winner: member ?? winner, winningTeam: team };
+  }
+  return { matchOver: true, winner: room.players.find((p) => operatorKey(p) === leader) ?? winner };
+};
+
+// Back to full health for the next round. Ready flags are kept so the
+// countdown starts straight away unless someone stands down or is offline.
+export const startNextRound = (code: string): Room | undefined => {
+  const room = rooms.get(code);
+  if (!room) {
+    return undefined;
+  }
+  room.eliminated = [];
+  room.magazines = {};
+  stopClock(room);
+  room.players.forEach((p) => {
+    p.health = STARTING_HEALTH;
+    p.reloading = false;
+    // Anyone still gone sits the countdown out until they're back and ready,
+    // or their seat is given up
+    p.ready = p.ready && p.connected !== false;
+  });
+  return room;
+};
+
+// Clears everything from the last match, ready flags included
+const resetMatch = (room: Room) => {
+  room.eliminated = [];
+  room.roundResults = [];
+  room.startsAt = null;
+  room.pause = null;
+  room.matchOver = false;
+  room.rematch = null;
+  room.magazines = {};
+  stopClock(room);
+  room.players.forEach((p) => {
+    p.health = STARTING_HEALTH;
+    p.ready = false;
+    p.reloading = false;
+  });
+};
+
+// After someone leaves: if a match was under way or just finished and there's
+// no longer anyone to play it against, it's called off and the room goes back
+// to the briefing for new opponents. Returns whether it was.
+export const abandonMatch = (room: Room): boolean => {
+  const opposed = GAME_MODES[room.settings.mode].teams
+    ? TEAM_IDS.every((team) => teamMembers(room.players, team).length > 0)
+    : room.players.length > 1;
+  if (!isUnderWay(room) || opposed) {
+    return false;
+  }
+  resetMatch(room);
+  return true;
+};
+
+// Once the match is over, any player can ask for a rematch. weapon is what
+// they're carrying now. Returns an error message if it can't be asked for.
+export const requestRematch = (
+  playerId: string,
+  options: RematchOptions,
+  weapon: WeaponId,
+  now = Date.now()
+): Room | string => {
+  const room = getRoomForPlayer(playerId);
+  const player = room?.players.find((p) => p.id === playerId);
+  if (!room || !player) {
+    return "You are not in a room";
+  }
+  if (!room.matchOver) {
+    return "The match isn't over yet";
+  }
+  if (room.rematch) {
+    return "A rematch has already been asked for";
+  }
+  if (room.players.length < 2) {
+    return "There's nobody left to play a rematch against";
+  }
+  const from = operatorKey(player);
+  room.rematch = {
+    swapWeapons: options.swapWeapons,
+    swapSides: options.swapSides && GAME_MODES[room.settings.mode].teams,
+    from,
+    accepted: [from],
+    weapons: { [from]: weapon },
+    expiresAt: now + REMATCH_TIMEOUT_MS,
+  };
+  return room;
+};
+
+export interface RematchAnswer {
+  room: Room;
+  // accepted: that was the last answer needed and the rematch is on
+  outcome: "pending" | "accepted" | "declined";
+  operator: string;
+}
+
+// A single decline calls the rematch off for everyone
+export const answerRematch = (playerId: string, accept: boolean, weapon: WeaponId): RematchAnswer | string => {
+  const room = getRoomForPlayer(playerId);
+  const player = room?.players.find((p) => p.id === playerId);
+  if (!room || !player) {
+    return "You are not in a room";
+  }
+  const { rematch } = room;
+  if (!rematch) {
+    return "There's no rematch to answer";
+  }
+  const operator = operatorKey(player);
+  if (!accept) {
+    room.rematch = null;
+    return { room, outcome: "declined", operator };
+  }
+  if (!rematch.accepted.includes(operator)) {
+    rematch.accepted.push(operator);
+  }
+  rematch.weapons[operator] = weapon;
+  const everyone = room.players.every((p) => rematch.accepted.includes(operatorKey(p)));
+  return { room, outcome: everyone ? "accepted" : "pending", operator };
+};
+
+export const cancelRematch = (room: Room) => {
+  room.rematch = null;
+};
+
+// Everyone agreed: a fresh match in the same room with the swaps applied.
+// Returns the weapon each operator starts it with.
+export const startRematch = (room: Room): Record<string, WeaponId> => {
+  const { rematch } = room;
+  resetMatch(room);
+  if (!rematch) {
+    return {};
+  }
+  if (rematch.swapSides) {
+    room.players.forEach((p) => {
+      p.team = TEAM_IDS.find((team) => p.team !== undefined && team !== p.team) ?? p.team;
+    });
+  }
+  if (!rematch.swapWeapons) {
+    return rematch.weapons;
+  }
+  const keys = room.players.map(operatorKey);
+  return Object.fromEntries(
+    keys.map((key, index) => {
+      const previous = keys[(index + keys.length - 1) % keys.length];
+      return [key, rematch.weapons[previous] ?? rematch.weapons[key]];
+    })
+  );
+};
+
+export const toRoomInfo = (code: string): RoomInfo => {
+  const room = rooms.get(code);
+  if (!room) {
+    return { error: "Room not found", code, players: [], createdAt: "" };
+  }
+  return { code: room.code, players: room.players, createdAt: room.createdAt };
+};